@@ -1,4 +1,10 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
 import { AsyncQueue, QueueElement } from '../queue/asyncQueue';
+import { BatchItemResult } from '../queue/batcher';
+import { VirtualClock } from '../queue/clock';
+import { FileQueueStorage, MemoryQueueStorage } from '../queue/queueStorage';
 
 describe('AsyncQueue', () => {
     let queue: AsyncQueue<number>;
@@ -96,10 +102,11 @@ describe('AsyncQueue', () => {
     });
 
     it('should handle timeouts correctly', async () => {
-        const timeoutQueue = new AsyncQueue<number>({ timeout: 100 });
+        const clock = new VirtualClock();
+        const timeoutQueue = new AsyncQueue<number>({ timeout: 100, clock });
 
         timeoutQueue.setConsumer(async () => {
-            await new Promise(resolve => setTimeout(resolve, 200));
+            await new Promise<void>(resolve => clock.setTimeout(resolve, 200));
         });
 
         timeoutQueue.setErrorHandler((element) => {
@@ -107,16 +114,19 @@ describe('AsyncQueue', () => {
         });
 
         timeoutQueue.enqueue(1);
-        await timeoutQueue.start();
+        const running = timeoutQueue.start();
+        await clock.advance(100);
+        await running;
 
         expect(errorItems.length).toBe(1);
-        expect(errorItems[0].error?.errorType).toBe('error');
+        expect(errorItems[0].error?.errorType).toBe('timeout');
         expect(errorItems[0].error?.errorMessage).toBe('Timeout');
     });
 
     it('should retry failed items', async () => {
         let attempts = 0;
-        const retryQueue = new AsyncQueue<number>({ maxRetries: 2, retryDelay: 100 });
+        const clock = new VirtualClock();
+        const retryQueue = new AsyncQueue<number>({ maxRetries: 2, retryDelay: 100, clock });
 
         retryQueue.setConsumer(async (item) => {
             attempts++;
@@ -127,7 +137,12 @@ describe('AsyncQueue', () => {
         });
 
         retryQueue.enqueue(1);
-        await retryQueue.start();
+        const running = retryQueue.start();
+        await clock.advance(199);
+        expect(attempts).toBe(2);
+
+        await clock.advance(1);
+        await running;
 
         expect(attempts).toBe(3);
         expect(processedItems).toContain(1);
@@ -208,4 +223,1473 @@ describe('AsyncQueue', () => {
         expect(queue.peek()).toBe(1);
         expect(queue.getItems().length).toBe(2);
     });
-}); 
\ No newline at end of file
+
+    it('should dequeue higher priority items first and keep FIFO order among equals', async () => {
+        const priorityQueue = new AsyncQueue<string>({ maxConcurrent: 1 });
+        const items: string[] = [];
+
+        priorityQueue.setConsumer(async (item) => {
+            items.push(item);
+        });
+
+        priorityQueue.enqueue('bulk-1');
+        priorityQueue.enqueue('bulk-2');
+        priorityQueue.enqueue('urgent-1', { priority: 10 });
+        priorityQueue.enqueue('normal', { priority: 5 });
+        priorityQueue.enqueue('urgent-2', { priority: 10 });
+
+        expect(priorityQueue.peek()).toBe('urgent-1');
+        expect(priorityQueue.getItems()).toEqual(['urgent-1', 'urgent-2', 'normal', 'bulk-1', 'bulk-2']);
+
+        await priorityQueue.start();
+
+        expect(items).toEqual(['urgent-1', 'urgent-2', 'normal', 'bulk-1', 'bulk-2']);
+    });
+
+    it('should update the priority of a waiting item', async () => {
+        const priorityQueue = new AsyncQueue<string>({ maxConcurrent: 2 });
+        const items: string[] = [];
+
+        priorityQueue.setConsumer(async (item) => {
+            items.push(item);
+        });
+
+        priorityQueue.enqueue('a');
+        priorityQueue.enqueue('b');
+        priorityQueue.enqueue('c');
+
+        expect(priorityQueue.updatePriority('c', 1)).toBe(true);
+        expect(priorityQueue.updatePriority('missing', 1)).toBe(false);
+        expect(priorityQueue.peek()).toBe('c');
+
+        await priorityQueue.start();
+
+        expect(items[0]).toBe('c');
+        expect(items).toHaveLength(3);
+    });
+
+    it('should apply maxQueueSize to prioritized items', () => {
+        for (let i = 0; i < 5; i++) {
+            queue.enqueue(i);
+        }
+        queue.enqueue(99, { priority: 100 });
+
+        expect(queue.getItems()).not.toContain(99);
+        expect(errorItems).toHaveLength(1);
+        expect(errorItems[0].priority).toBe(100);
+    });
+
+    it('should pause and resume processing', async () => {
+        const pausableQueue = new AsyncQueue<number>({ maxConcurrent: 1 });
+        const items: number[] = [];
+
+        pausableQueue.setConsumer(async (item) => {
+            items.push(item);
+            if (item === 1) pausableQueue.pause();
+        });
+
+        pausableQueue.enqueue(1);
+        pausableQueue.enqueue(2);
+        pausableQueue.enqueue(3);
+
+        const running = pausableQueue.start();
+        await new Promise(resolve => setTimeout(resolve, 50));
+
+        expect(items).toEqual([1]);
+        expect(pausableQueue.isPaused()).toBe(true);
+        expect(pausableQueue.getItems()).toEqual([2, 3]);
+
+        pausableQueue.resume();
+        await running;
+
+        expect(items).toEqual([1, 2, 3]);
+    });
+
+    it('should resolve onIdle and drain once all work has finished', async () => {
+        const idleQueue = new AsyncQueue<number>({ maxConcurrent: 2 });
+        const items: number[] = [];
+
+        idleQueue.setConsumer(async (item) => {
+            await new Promise(resolve => setTimeout(resolve, 20));
+            items.push(item);
+        });
+
+        await idleQueue.onIdle();
+
+        idleQueue.enqueue(1);
+        idleQueue.enqueue(2);
+        idleQueue.enqueue(3);
+
+        const idle = idleQueue.onIdle();
+        await idleQueue.drain();
+        await idle;
+
+        expect(items.sort()).toEqual([1, 2, 3]);
+        expect(idleQueue.activeCount()).toBe(0);
+    });
+
+    it('should abort the consumer signal when an attempt times out', async () => {
+        const timeoutQueue = new AsyncQueue<number>({ timeout: 50 });
+        let aborted = false;
+
+        timeoutQueue.setConsumer((_item, signal) => new Promise(resolve => {
+            signal.addEventListener('abort', () => {
+                aborted = true;
+                resolve();
+            });
+        }));
+
+        timeoutQueue.enqueue(1);
+        await timeoutQueue.start();
+
+        expect(aborted).toBe(true);
+        expect(timeoutQueue.getStats().failedItems).toBe(1);
+    });
+
+    it('should cancel running jobs when cleared', async () => {
+        const cancelQueue = new AsyncQueue<number>({ maxConcurrent: 2 });
+        const errors: QueueElement<number>[] = [];
+
+        cancelQueue.setConsumer((_item, signal) => new Promise((_resolve, reject) => {
+            signal.addEventListener('abort', () => reject(signal.reason));
+        }));
+        cancelQueue.setErrorHandler((element) => {
+            errors.push(element);
+        });
+
+        cancelQueue.enqueue(1);
+        cancelQueue.enqueue(2);
+        cancelQueue.enqueue(3);
+
+        const running = cancelQueue.start();
+        await new Promise(resolve => setTimeout(resolve, 10));
+        cancelQueue.clear();
+        await running;
+
+        expect(errors).toHaveLength(2);
+        expect(errors[0].error?.errorType).toBe('cancelled');
+        expect(cancelQueue.isEmpty()).toBe(true);
+    });
+
+    it('should wait for running jobs on graceful shutdown and reject new items', async () => {
+        const shutdownQueue = new AsyncQueue<number>({ maxConcurrent: 1 });
+        const items: number[] = [];
+        const errors: QueueElement<number>[] = [];
+
+        shutdownQueue.setConsumer(async (item) => {
+            await new Promise(resolve => setTimeout(resolve, 30));
+            items.push(item);
+        });
+        shutdownQueue.setErrorHandler((element) => {
+            errors.push(element);
+        });
+
+        const first = shutdownQueue.enqueue(1);
+        const second = shutdownQueue.enqueue(2);
+        const delayed = shutdownQueue.enqueue(4, { delayMs: 10000 });
+        const dependent = shutdownQueue.enqueue(5, { id: 'dependent', dependsOn: ['missing'] });
+
+        shutdownQueue.start();
+        await shutdownQueue.shutdown();
+
+        expect(items).toEqual([1]);
+        await expect(first.promise).resolves.toBeUndefined();
+        for (const handle of [second, delayed, dependent]) {
+            await expect(handle.promise).rejects.toMatchObject({ errorType: 'shutdown' });
+        }
+        expect(shutdownQueue.getItems()).toEqual([]);
+        expect(shutdownQueue.isEmpty()).toBe(true);
+        expect(shutdownQueue.getStats()).toMatchObject({ queued: 0, delayed: 0, waiting: 0 });
+
+        shutdownQueue.enqueue(3);
+        expect(errors.map(element => [element.item, element.error?.errorType])).toEqual([[2, 'shutdown'], [4, 'shutdown'], [5, 'shutdown'], [3, 'shutdown']]);
+        await expect(shutdownQueue.start()).rejects.toThrow('Queue is shut down');
+    });
+
+    it('should abort running jobs when the shutdown timeout elapses', async () => {
+        const shutdownQueue = new AsyncQueue<number>({ timeout: 5000 });
+        const errors: QueueElement<number>[] = [];
+
+        shutdownQueue.setConsumer((_item, signal) => new Promise((_resolve, reject) => {
+            signal.addEventListener('abort', () => reject(signal.reason));
+        }));
+        shutdownQueue.setErrorHandler((element) => {
+            errors.push(element);
+        });
+
+        shutdownQueue.enqueue(1);
+        shutdownQueue.start();
+        await shutdownQueue.shutdown({ graceful: true, timeoutMs: 30 });
+
+        expect(errors).toHaveLength(1);
+        expect(errors[0].error?.errorType).toBe('cancelled');
+        expect(errors[0].error?.errorMessage).toBe('Shutdown timeout');
+    });
+
+    it('should notify every subscribed listener and support once and off', async () => {
+        const eventQueue = new AsyncQueue<number>();
+        const first: number[] = [];
+        const second: number[] = [];
+        const onceOnly: number[] = [];
+        const removed: number[] = [];
+        const removedListener = ({ item }: { item: number }): void => {
+            removed.push(item);
+        };
+
+        eventQueue.setConsumer(async () => { });
+        eventQueue
+            .on('success', ({ item }) => first.push(item))
+            .on('success', ({ item }) => second.push(item))
+            .once('success', ({ item }) => onceOnly.push(item))
+            .on('success', removedListener)
+            .off('success', removedListener);
+
+        eventQueue.enqueue(1);
+        eventQueue.enqueue(2);
+        await eventQueue.start();
+
+        expect(first).toEqual([1, 2]);
+        expect(second).toEqual([1, 2]);
+        expect(onceOnly).toEqual([1]);
+        expect(removed).toEqual([]);
+    });
+
+    it('should replace only the handler registered through set*Handler', async () => {
+        const eventQueue = new AsyncQueue<number>();
+        const listener: number[] = [];
+        const handler: string[] = [];
+
+        eventQueue.setConsumer(async () => { });
+        eventQueue.on('started', ({ item }) => listener.push(item));
+        eventQueue.setStartedHandler((item) => handler.push(`old-${item}`));
+        eventQueue.setStartedHandler((item) => handler.push(`new-${item}`));
+
+        eventQueue.enqueue(1);
+        await eventQueue.start();
+
+        expect(listener).toEqual([1]);
+        expect(handler).toEqual(['new-1']);
+    });
+
+    it('should emit retry, timeout and error events with attempt numbers and durations', async () => {
+        const eventQueue = new AsyncQueue<number>({ maxRetries: 1, retryDelay: 10, timeout: 20 });
+        const retries: number[] = [];
+        const timeouts: number[] = [];
+        const errors: { attempt: number; duration: number }[] = [];
+
+        eventQueue.setConsumer(() => new Promise(resolve => setTimeout(resolve, 100)));
+        eventQueue.on('retry', ({ attempt }) => retries.push(attempt));
+        eventQueue.on('timeout', ({ attempt }) => timeouts.push(attempt));
+        eventQueue.on('error', ({ attempt, duration }) => errors.push({ attempt, duration }));
+
+        eventQueue.enqueue(1);
+        await eventQueue.start();
+
+        expect(retries).toEqual([1]);
+        expect(timeouts).toEqual([1, 2]);
+        expect(errors).toHaveLength(1);
+        expect(errors[0].attempt).toBe(2);
+        expect(errors[0].duration).toBeGreaterThanOrEqual(40);
+    });
+
+    it('should emit dropped and idle events', async () => {
+        const eventQueue = new AsyncQueue<number>({ maxQueueSize: 1 });
+        const dropped: string[] = [];
+        let idleCount = 0;
+
+        eventQueue.setConsumer(async () => { });
+        eventQueue.on('dropped', ({ error }) => dropped.push(error.errorType));
+        eventQueue.on('idle', () => idleCount++);
+
+        eventQueue.enqueue(1);
+        eventQueue.enqueue(2);
+        await eventQueue.start();
+
+        expect(dropped).toEqual(['maxQueueSize']);
+        expect(idleCount).toBe(1);
+    });
+
+    it('should rate limit consumer calls across concurrent workers', async () => {
+        const limitedQueue = new AsyncQueue<number>({ maxConcurrent: 3, rateLimit: { limit: 2, intervalMs: 100 } });
+        const calls: number[] = [];
+
+        limitedQueue.setConsumer(async () => {
+            calls.push(Date.now());
+        });
+
+        for (let i = 0; i < 6; i++) {
+            limitedQueue.enqueue(i);
+        }
+
+        const startedAt = Date.now();
+        await limitedQueue.start();
+
+        expect(calls).toHaveLength(6);
+        expect(calls.filter(time => time - startedAt < 40)).toHaveLength(2);
+        expect(Date.now() - startedAt).toBeGreaterThanOrEqual(190);
+    });
+
+    it('should report throttling in stats and allow changing the rate limit at runtime', () => {
+        const limitedQueue = new AsyncQueue<number>({ rateLimit: { limit: 1, intervalMs: 1000 } });
+
+        expect(limitedQueue.getStats().throttled).toBe(false);
+        expect(limitedQueue.getRateLimit()).toEqual({ limit: 1, intervalMs: 1000 });
+
+        limitedQueue.setRateLimit({ limit: 50, intervalMs: 1000 });
+        expect(limitedQueue.getRateLimit()).toEqual({ limit: 50, intervalMs: 1000 });
+
+        limitedQueue.setRateLimit();
+        expect(limitedQueue.getRateLimit()).toBeUndefined();
+        expect(limitedQueue.getStats().nextSlotAt).toBeNull();
+    });
+
+    it('should expose the next slot time while throttled', async () => {
+        const limitedQueue = new AsyncQueue<number>({ rateLimit: { limit: 1, intervalMs: 1000 } });
+
+        limitedQueue.setConsumer(async () => { });
+        limitedQueue.enqueue(1);
+        await limitedQueue.start();
+
+        const stats = limitedQueue.getStats();
+        expect(stats.throttled).toBe(true);
+        expect(stats.nextSlotAt).toBeGreaterThan(Date.now());
+    });
+
+    it('should back off exponentially up to maxDelay', async () => {
+        const backoffQueue = new AsyncQueue<number>({
+            maxRetries: 4,
+            retryDelay: 10,
+            backoff: { type: 'exponential', factor: 2, maxDelay: 30 },
+        });
+        const delays: number[] = [];
+
+        backoffQueue.setConsumer(async () => {
+            throw new Error('Always fails');
+        });
+        backoffQueue.on('retry', ({ delay }) => delays.push(delay));
+
+        backoffQueue.enqueue(1);
+        await backoffQueue.start();
+
+        expect(delays).toEqual([10, 20, 30, 30]);
+    });
+
+    it('should stop retrying when shouldRetry returns false', async () => {
+        const seen: number[] = [];
+        const retryQueue = new AsyncQueue<number>({
+            maxRetries: 5,
+            retryDelay: 1,
+            shouldRetry: (error, attempt): boolean => {
+                seen.push(attempt);
+                return error.message !== 'Fatal';
+            },
+        });
+        let attempts = 0;
+
+        retryQueue.setConsumer(async () => {
+            attempts++;
+            throw new Error(attempts < 2 ? 'Temporary' : 'Fatal');
+        });
+        retryQueue.setErrorHandler((element) => {
+            errorItems.push(element);
+        });
+
+        retryQueue.enqueue(1);
+        await retryQueue.start();
+
+        expect(attempts).toBe(2);
+        expect(seen).toEqual([1, 2]);
+        expect(errorItems[0].error?.attempts?.map(attempt => attempt.errorMessage)).toEqual(['Temporary', 'Fatal']);
+    });
+
+    it('should apply per-item maxRetries and timeout overrides', async () => {
+        const overrideQueue = new AsyncQueue<number>({ maxRetries: 0, retryDelay: 1, timeout: 1000 });
+        const attempts: Record<number, number> = {};
+
+        overrideQueue.setConsumer(async (item) => {
+            attempts[item] = (attempts[item] ?? 0) + 1;
+            await new Promise(resolve => setTimeout(resolve, 50));
+        });
+        overrideQueue.setErrorHandler((element) => {
+            errorItems.push(element);
+        });
+
+        overrideQueue.enqueue(1, { maxRetries: 2, timeout: 10 });
+        overrideQueue.enqueue(2);
+        await overrideQueue.start();
+
+        expect(attempts).toEqual({ 1: 3, 2: 1 });
+        expect(errorItems).toHaveLength(1);
+        expect(errorItems[0].item).toBe(1);
+        expect(errorItems[0].error?.errorType).toBe('timeout');
+        expect(errorItems[0].error?.attempts).toHaveLength(3);
+        expect(errorItems[0].error?.attempts?.every(attempt => attempt.errorType === 'timeout')).toBe(true);
+    });
+
+    it('should keep permanently failed items in the dead-letter queue', async () => {
+        const dlqQueue = new AsyncQueue<number>({ maxRetries: 1, retryDelay: 1, deadLetter: true });
+
+        dlqQueue.setConsumer(async (item) => {
+            if (item % 2 === 0) throw new Error(`Failed ${item}`);
+        });
+
+        [1, 2, 3, 4].forEach(item => dlqQueue.enqueue(item, { priority: item }));
+        await dlqQueue.start();
+
+        const deadLetters = dlqQueue.getDeadLetters();
+        expect(deadLetters.map(entry => entry.element.item)).toEqual([4, 2]);
+        expect(deadLetters[0].error.errorMessage).toBe('Failed 4');
+        expect(deadLetters[0].error.attempts).toHaveLength(2);
+        expect(deadLetters[0].element.priority).toBe(4);
+        expect(deadLetters[0].failedAt).toBeGreaterThanOrEqual(deadLetters[0].firstFailedAt);
+        expect(dlqQueue.getDeadLetter(deadLetters[1].id)?.element.item).toBe(2);
+    });
+
+    it('should requeue and purge dead letters', async () => {
+        const dlqQueue = new AsyncQueue<number>({ deadLetter: { maxSize: 2 } });
+        let downstreamUp = false;
+        const processed: number[] = [];
+
+        dlqQueue.setConsumer(async (item) => {
+            if (!downstreamUp) throw new Error('Downstream unavailable');
+            processed.push(item);
+        });
+
+        [1, 2, 3].forEach(item => dlqQueue.enqueue(item));
+        await dlqQueue.start();
+
+        expect(dlqQueue.getDeadLetters().map(entry => entry.element.item)).toEqual([2, 3]);
+
+        downstreamUp = true;
+        expect(dlqQueue.requeueDeadLetters(entry => entry.element.item === 3)).toBe(1);
+        expect(dlqQueue.getItems()).toEqual([3]);
+        await dlqQueue.start();
+
+        expect(processed).toEqual([3]);
+        expect(dlqQueue.purgeDeadLetters()).toBe(1);
+        expect(dlqQueue.getDeadLetters()).toEqual([]);
+    });
+
+    it('should restore pending and in-flight items from storage with their attempt counts', async () => {
+        const storage = new MemoryQueueStorage<string>();
+        const crashed = new AsyncQueue<string>({ storage, maxRetries: 2, retryDelay: 1, timeout: 1000 });
+
+        crashed.setConsumer(async (item, signal) => {
+            if (item === 'done') return;
+            await new Promise<void>(resolve => signal.addEventListener('abort', () => resolve()));
+            throw new Error('Interrupted');
+        });
+
+        crashed.enqueue('done', { priority: 2 });
+        crashed.enqueue('in-flight', { priority: 1 });
+        crashed.enqueue('pending');
+        crashed.updatePriority('pending', 1);
+
+        // The process dies with 'in-flight' running and 'pending' queued: the queue is abandoned, not shut down.
+        crashed.start();
+        await new Promise(resolve => setTimeout(resolve, 20));
+
+        const restored = new AsyncQueue<string>({ storage, maxRetries: 2, retryDelay: 1 });
+        const attempts: Record<string, number[]> = {};
+
+        expect(restored.getItems()).toEqual(['in-flight', 'pending']);
+
+        restored.setConsumer(async () => { });
+        restored.on('success', ({ item, attempt }) => {
+            attempts[item] = [...(attempts[item] ?? []), attempt];
+        });
+        await restored.start();
+
+        expect(attempts).toEqual({ 'in-flight': [2], pending: [1] });
+        expect(new AsyncQueue<string>({ storage }).isEmpty()).toBe(true);
+        await crashed.shutdown({ graceful: false });
+    });
+
+    it('should keep pending and aborted running items in storage on shutdown', async () => {
+        const storage = new MemoryQueueStorage<string>();
+        const stopped = new AsyncQueue<string>({ storage });
+        stopped.setConsumer((_item, signal) => new Promise((_resolve, reject) => {
+            signal.addEventListener('abort', () => reject(new Error('Aborted')));
+        }));
+
+        stopped.enqueue('running');
+        const pending = stopped.enqueue('pending');
+        stopped.start();
+        await new Promise(resolve => setImmediate(resolve));
+        await stopped.shutdown({ graceful: false });
+
+        await expect(pending.promise).rejects.toMatchObject({ errorType: 'shutdown' });
+        expect(new AsyncQueue<string>({ storage }).getItems()).toEqual(['running', 'pending']);
+    });
+
+    it('should persist jobs to an append-only file journal', async () => {
+        const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'mjs-structs-'));
+        const file = path.join(dir, 'queue.log');
+
+        try {
+            const first = new AsyncQueue<{ id: number }>({ storage: new FileQueueStorage(file) });
+            first.enqueue({ id: 1 });
+            first.enqueue({ id: 2 });
+
+            fs.appendFileSync(file, '{"type":"ack","id"');
+
+            const second = new AsyncQueue<{ id: number }>({ storage: new FileQueueStorage(file) });
+            const processed: number[] = [];
+            expect(second.getItems()).toEqual([{ id: 1 }, { id: 2 }]);
+
+            second.setConsumer(async (item) => {
+                processed.push(item.id);
+            });
+            await second.start();
+
+            expect(processed).toEqual([1, 2]);
+            expect(new AsyncQueue({ storage: new FileQueueStorage(file) }).isEmpty()).toBe(true);
+            expect(fs.readFileSync(file, 'utf8')).toBe('');
+        } finally {
+            fs.rmSync(dir, { recursive: true, force: true });
+        }
+    });
+
+    it('should report depth, in-flight, retry and drop counts', async () => {
+        const metricsQueue = new AsyncQueue<number>({ maxQueueSize: 3, maxRetries: 1, retryDelay: 1 });
+        let inFlightDuringRun = 0;
+        let attempts = 0;
+
+        metricsQueue.setConsumer(async () => {
+            inFlightDuringRun = metricsQueue.getStats().inFlight;
+            attempts++;
+            if (attempts === 1) throw new Error('Flaky');
+        });
+
+        [1, 2, 3, 4].forEach(item => metricsQueue.enqueue(item));
+        expect(metricsQueue.getStats().queued).toBe(3);
+        expect(metricsQueue.getStats().droppedItems).toBe(1);
+
+        await metricsQueue.start();
+
+        const stats = metricsQueue.getStats();
+        expect(inFlightDuringRun).toBe(1);
+        expect(stats.queued).toBe(0);
+        expect(stats.inFlight).toBe(0);
+        expect(stats.retries).toBe(1);
+        expect(stats.processedItems).toBe(3);
+        expect(stats.processingTime.count).toBe(3);
+        expect(stats.waitTime.count).toBe(3);
+        expect(stats.processingTime.p99).toBeGreaterThanOrEqual(stats.processingTime.p50);
+    });
+
+    it('should return immutable snapshots and reset stats', () => {
+        queue.enqueue(1);
+        queue.enqueue(2);
+
+        const before = queue.getStats();
+        expect(Object.isFrozen(before)).toBe(true);
+
+        queue.clear();
+        const after = queue.getStats();
+        expect(before.queued).toBe(2);
+        expect(after.queued).toBe(0);
+        expect(after.clearedItems).toBe(2);
+
+        queue.resetStats();
+        expect(queue.getStats().totalItems).toBe(0);
+        expect(queue.getStats().clearedItems).toBe(0);
+    });
+
+    it('should render metrics in Prometheus text format', async () => {
+        queue.enqueue(1);
+        await queue.start();
+
+        const output = queue.toPrometheus('jobs');
+        expect(output).toContain('# TYPE jobs_processed_total counter');
+        expect(output).toContain('jobs_processed_total 1');
+        expect(output).toContain('# TYPE jobs_queued gauge');
+        expect(output).toContain('# TYPE jobs_processing_time_ms histogram');
+        expect(output).toContain('jobs_processing_time_ms_bucket{le="+Inf"} 1');
+        expect(output).toContain('jobs_wait_time_ms_count 1');
+        expect(output.endsWith('\n')).toBe(true);
+    });
+
+    it('should resolve per-item promises with the consumer result', async () => {
+        const resultQueue = new AsyncQueue<number, string>({ maxConcurrent: 2 });
+        const results: string[] = [];
+
+        resultQueue.setConsumer(async (item) => `result-${item}`);
+        resultQueue.on('success', ({ result }) => results.push(result));
+
+        const first = resultQueue.enqueue(1);
+        const second = resultQueue.enqueue(2);
+        resultQueue.start();
+
+        await expect(first.promise).resolves.toBe('result-1');
+        await expect(second.promise).resolves.toBe('result-2');
+        expect(results.sort()).toEqual(['result-1', 'result-2']);
+    });
+
+    it('should reject per-item promises with the final error', async () => {
+        const resultQueue = new AsyncQueue<number, number>({ maxQueueSize: 1 });
+
+        resultQueue.setConsumer(async () => {
+            throw new Error('Boom');
+        });
+
+        const failing = resultQueue.enqueue(1);
+        const dropped = resultQueue.enqueue(2);
+        resultQueue.start();
+
+        await expect(failing.promise).rejects.toMatchObject({ errorType: 'error', errorMessage: 'Boom' });
+        await expect(dropped.promise).rejects.toMatchObject({ errorType: 'maxQueueSize' });
+    });
+
+    it('should cancel items that have not started', async () => {
+        const resultQueue = new AsyncQueue<number, number>();
+        const processed: number[] = [];
+
+        resultQueue.setConsumer(async (item) => {
+            processed.push(item);
+            return item * 2;
+        });
+
+        const kept = resultQueue.enqueue(1);
+        const cancelled = resultQueue.enqueue(2);
+
+        expect(cancelled.cancel()).toBe(true);
+        expect(cancelled.cancel()).toBe(false);
+        await expect(cancelled.promise).rejects.toMatchObject({ errorType: 'cancelled' });
+
+        await resultQueue.start();
+
+        expect(kept.cancel()).toBe(false);
+        await expect(kept.promise).resolves.toBe(2);
+        expect(processed).toEqual([1]);
+    });
+
+    it('should keep persistent workers alive and wake them on enqueue', async () => {
+        const workerQueue = new AsyncQueue<number>({ persistent: true, maxConcurrent: 2 });
+        const processed: number[] = [];
+        let ended = false;
+
+        workerQueue.setConsumer(async (item) => {
+            processed.push(item);
+        });
+        workerQueue.setEndHandler(() => {
+            ended = true;
+        });
+
+        const running = workerQueue.start();
+        workerQueue.enqueue(1);
+        await workerQueue.onIdle();
+        await new Promise(resolve => setTimeout(resolve, 20));
+
+        expect(processed).toEqual([1]);
+        expect(ended).toBe(false);
+
+        workerQueue.enqueue(2);
+        workerQueue.enqueue(3);
+        await workerQueue.onIdle();
+        expect(processed).toEqual([1, 2, 3]);
+
+        await workerQueue.shutdown();
+        await running;
+        expect(ended).toBe(true);
+    });
+
+    it('should not strand items enqueued while the last worker is finishing', async () => {
+        const raceQueue = new AsyncQueue<number>({ maxConcurrent: 2 });
+        const processed: number[] = [];
+
+        raceQueue.setConsumer(async (item) => {
+            processed.push(item);
+            if (item === 1) {
+                Promise.resolve().then(() => raceQueue.enqueue(2));
+            }
+        });
+
+        raceQueue.enqueue(1);
+        await raceQueue.start();
+
+        expect(processed).toEqual([1, 2]);
+    });
+
+    it('should pull from an async iterable only as fast as workers consume', async () => {
+        const sourceQueue = new AsyncQueue<number>({ maxConcurrent: 2 });
+        let pulled = 0;
+        let maxAhead = 0;
+        const processed: number[] = [];
+
+        async function* produce(): AsyncGenerator<number> {
+            for (let i = 1; i <= 6; i++) {
+                pulled++;
+                maxAhead = Math.max(maxAhead, pulled - processed.length);
+                yield i;
+            }
+        }
+
+        sourceQueue.setConsumer(async (item) => {
+            await new Promise(resolve => setTimeout(resolve, 10));
+            processed.push(item);
+        });
+        sourceQueue.setSource(produce());
+
+        await sourceQueue.start();
+
+        expect(processed.sort()).toEqual([1, 2, 3, 4, 5, 6]);
+        expect(maxAhead).toBeLessThanOrEqual(2);
+    });
+
+    it('should reject start when the source fails', async () => {
+        const sourceQueue = new AsyncQueue<number>();
+        const processed: number[] = [];
+
+        async function* produce(): AsyncGenerator<number> {
+            yield 1;
+            throw new Error('Stream broke');
+        }
+
+        sourceQueue.setConsumer(async (item) => {
+            processed.push(item);
+        });
+        sourceQueue.setSource(produce());
+
+        await expect(sourceQueue.start()).rejects.toThrow('Stream broke');
+        expect(processed).toEqual([1]);
+    });
+
+    it('should reject onIdle instead of leaving an unhandled rejection when an auto-started run fails', async () => {
+        const unhandled: unknown[] = [];
+        const onUnhandled = (reason: unknown): void => {
+            unhandled.push(reason);
+        };
+        process.on('unhandledRejection', onUnhandled);
+
+        async function* produce(): AsyncGenerator<number> {
+            yield 1;
+            throw new Error('Source boom');
+        }
+
+        try {
+            const sourceQueue = new AsyncQueue<number>({ autoStart: true });
+            const processed: number[] = [];
+            sourceQueue.setConsumer(async (item) => {
+                processed.push(item);
+            });
+            sourceQueue.setSource(produce());
+            await expect(sourceQueue.onIdle()).rejects.toThrow('Source boom');
+            expect(processed).toEqual([1]);
+
+            const noConsumer = new AsyncQueue<number>({ autoStart: true });
+            noConsumer.setSource(produce());
+            await expect(noConsumer.drain()).rejects.toThrow('Consumer not set');
+
+            await new Promise(resolve => setImmediate(resolve));
+            expect(unhandled).toEqual([]);
+        } finally {
+            process.off('unhandledRejection', onUnhandled);
+        }
+    });
+
+    it('should forget a missing consumer once a later run succeeds', async () => {
+        const lateQueue = new AsyncQueue<number>({ autoStart: true });
+
+        lateQueue.enqueue(1);
+        lateQueue.setConsumer(async () => { });
+        lateQueue.enqueue(2);
+
+        await expect(lateQueue.onIdle()).resolves.toBeUndefined();
+        expect(lateQueue.getStats().processedItems).toBe(2);
+    });
+
+    it('should wait for space in enqueueAsync', async () => {
+        const boundedQueue = new AsyncQueue<number>({ maxQueueSize: 1 });
+        const processed: number[] = [];
+
+        boundedQueue.setConsumer(async (item) => {
+            await new Promise(resolve => setTimeout(resolve, 10));
+            processed.push(item);
+        });
+
+        await boundedQueue.enqueueAsync(1);
+        let admitted = false;
+        const pending = boundedQueue.enqueueAsync(2).then(handle => {
+            admitted = true;
+            return handle;
+        });
+
+        await new Promise(resolve => setTimeout(resolve, 10));
+        expect(admitted).toBe(false);
+
+        boundedQueue.start();
+        const handle = await pending;
+        await handle.promise;
+
+        expect(processed).toEqual([1, 2]);
+    });
+
+    it('should reject enqueueAsync on timeout or abort', async () => {
+        const boundedQueue = new AsyncQueue<number>({ maxQueueSize: 1 });
+        const controller = new AbortController();
+
+        boundedQueue.enqueue(1);
+
+        await expect(boundedQueue.enqueueAsync(2, { timeoutMs: 10 }))
+            .rejects.toMatchObject({ errorType: 'maxQueueSize', errorMessage: 'Timed out waiting for queue space' });
+
+        const aborted = boundedQueue.enqueueAsync(3, { signal: controller.signal });
+        controller.abort();
+        await expect(aborted).rejects.toMatchObject({ errorType: 'cancelled' });
+
+        expect(boundedQueue.getItems()).toEqual([1]);
+    });
+
+    it('should apply the drop-newest and drop-oldest overflow policies', () => {
+        const newest = new AsyncQueue<number>({ maxQueueSize: 2, overflow: 'drop-newest' });
+        const oldest = new AsyncQueue<number>({ maxQueueSize: 2, overflow: 'drop-oldest' });
+        const newestErrors: QueueElement<number>[] = [];
+        const evicted: number[] = [];
+
+        newest.setErrorHandler((element) => newestErrors.push(element));
+        oldest.on('dropped', ({ item }) => evicted.push(item));
+
+        [1, 2, 3].forEach(item => newest.enqueue(item));
+        [1, 2, 3].forEach(item => oldest.enqueue(item, { priority: item === 1 ? 5 : 0 }));
+
+        expect(newest.getItems()).toEqual([1, 2]);
+        expect(newest.getStats().droppedItems).toBe(1);
+        expect(newestErrors).toEqual([]);
+        expect(oldest.getItems()).toEqual([2, 3]);
+        expect(evicted).toEqual([1]);
+    });
+
+    it('should reject the new item under drop-oldest when only waiting items fill the queue', async () => {
+        const oldest = new AsyncQueue<string>({ maxQueueSize: 1, overflow: 'drop-oldest' });
+        const dropped: string[] = [];
+        oldest.on('dropped', ({ item }) => dropped.push(item));
+
+        oldest.enqueue('a', { id: 'a', dependsOn: ['missing'] });
+        const rejected = oldest.enqueue('b');
+
+        await expect(rejected.promise).rejects.toMatchObject({ errorType: 'maxQueueSize', errorMessage: 'Queue is full' });
+        expect(dropped).toEqual(['b']);
+        expect(oldest.getStats().droppedItems).toBe(1);
+        expect(oldest.getStats().waiting).toBe(1);
+    });
+
+    it('should park items with the block overflow policy until space frees up', async () => {
+        const blockingQueue = new AsyncQueue<number, number>({ maxQueueSize: 1, overflow: 'block' });
+
+        blockingQueue.setConsumer(async (item) => item * 10);
+
+        const first = blockingQueue.enqueue(1);
+        const second = blockingQueue.enqueue(2);
+        const third = blockingQueue.enqueue(3);
+
+        expect(blockingQueue.getItems()).toEqual([1]);
+        expect(third.cancel()).toBe(true);
+
+        blockingQueue.start();
+
+        await expect(first.promise).resolves.toBe(10);
+        await expect(second.promise).resolves.toBe(20);
+        await expect(third.promise).rejects.toMatchObject({ errorType: 'cancelled' });
+    });
+
+    it('should hand items to the batch consumer in batches', async () => {
+        const batchQueue = new AsyncQueue<number>();
+        const batches: number[][] = [];
+        const succeeded: number[] = [];
+
+        batchQueue.setBatchConsumer(async (items) => {
+            batches.push(items);
+        }, { maxBatchSize: 3, maxWaitMs: 20 });
+        batchQueue.setSuccessHandler((item) => succeeded.push(item));
+
+        [1, 2, 3, 4, 5, 6, 7].forEach(item => batchQueue.enqueue(item));
+        await batchQueue.start();
+
+        expect(batches).toEqual([[1, 2, 3], [4, 5, 6], [7]]);
+        expect(succeeded.sort()).toEqual([1, 2, 3, 4, 5, 6, 7]);
+        expect(batchQueue.getStats().processedItems).toBe(7);
+    });
+
+    it('should flush a partial batch once maxWaitMs elapses', async () => {
+        const batchQueue = new AsyncQueue<number>({ persistent: true });
+        const batches: number[][] = [];
+
+        batchQueue.setBatchConsumer(async (items) => {
+            batches.push(items);
+        }, { maxBatchSize: 10, maxWaitMs: 30 });
+
+        const running = batchQueue.start();
+        batchQueue.enqueue(1);
+        batchQueue.enqueue(2);
+
+        await new Promise(resolve => setTimeout(resolve, 10));
+        expect(batches).toEqual([]);
+
+        await batchQueue.onIdle();
+        expect(batches).toEqual([[1, 2]]);
+
+        await batchQueue.shutdown();
+        await running;
+    });
+
+    it('should retry and report failures per item within a batch', async () => {
+        const batchQueue = new AsyncQueue<number, string>({ maxRetries: 1, retryDelay: 1 });
+        const batches: number[][] = [];
+
+        batchQueue.setBatchConsumer(async (items) => {
+            batches.push(items);
+            return items.map(item => item === 2
+                ? { status: 'rejected' as const, reason: new Error(`Bad ${item}`) }
+                : { status: 'fulfilled' as const, value: `ok-${item}` });
+        }, { maxBatchSize: 3, maxWaitMs: 10 });
+        batchQueue.setErrorHandler((element) => errorItems.push(element));
+
+        const handles = [1, 2, 3].map(item => batchQueue.enqueue(item));
+        await batchQueue.start();
+
+        await expect(handles[0].promise).resolves.toBe('ok-1');
+        await expect(handles[2].promise).resolves.toBe('ok-3');
+        expect(batches).toEqual([[1, 2, 3], [2]]);
+        expect(errorItems).toHaveLength(1);
+        expect(errorItems[0].item).toBe(2);
+        expect(errorItems[0].error?.attempts).toHaveLength(2);
+    });
+
+    it('should fail every item when the batch consumer throws', async () => {
+        const batchQueue = new AsyncQueue<number>();
+
+        batchQueue.setBatchConsumer(async () => {
+            throw new Error('Bulk API down');
+        }, { maxBatchSize: 2, maxWaitMs: 10 });
+        batchQueue.setErrorHandler((element) => errorItems.push(element));
+
+        batchQueue.enqueue(1);
+        batchQueue.enqueue(2);
+        await batchQueue.start();
+
+        expect(errorItems.map(element => element.error?.errorMessage)).toEqual(['Bulk API down', 'Bulk API down']);
+    });
+
+    it('should fail batch items the consumer returned no result for', async () => {
+        const batchQueue = new AsyncQueue<number, number>();
+
+        batchQueue.setBatchConsumer(async (items) => {
+            const results: BatchItemResult<number>[] = [];
+            results[1] = { status: 'fulfilled', value: items[1] * 10 };
+            return results;
+        }, { maxBatchSize: 3, maxWaitMs: 10 });
+
+        const handles = [1, 2, 3].map(item => batchQueue.enqueue(item));
+        await batchQueue.start();
+
+        await expect(handles[0].promise).rejects.toMatchObject({ errorMessage: 'Batch consumer returned no result for item 0 of 3' });
+        await expect(handles[1].promise).resolves.toBe(20);
+        await expect(handles[2].promise).rejects.toMatchObject({ errorMessage: 'Batch consumer returned no result for item 2 of 3' });
+        expect(batchQueue.getStats().failedItems).toBe(2);
+    });
+
+    it('should run items sharing a key one after another in FIFO order', async () => {
+        const keyedQueue = new AsyncQueue<{ customer: string; seq: number }>({
+            maxConcurrent: 4,
+            keyFn: (event): string => event.customer,
+        });
+        const running = new Map<string, number>();
+        const order: string[] = [];
+        let overlapped = false;
+        let maxParallel = 0;
+
+        keyedQueue.setConsumer(async (event) => {
+            const count = (running.get(event.customer) ?? 0) + 1;
+            running.set(event.customer, count);
+            if (count > 1) overlapped = true;
+            maxParallel = Math.max(maxParallel, [...running.values()].reduce((sum, value) => sum + value, 0));
+
+            await new Promise(resolve => setTimeout(resolve, event.seq === 1 ? 30 : 5));
+            order.push(`${event.customer}${event.seq}`);
+            running.set(event.customer, running.get(event.customer)! - 1);
+        });
+
+        [1, 2, 3].forEach(seq => {
+            keyedQueue.enqueue({ customer: 'a', seq });
+            keyedQueue.enqueue({ customer: 'b', seq });
+        });
+        await keyedQueue.start();
+
+        expect(overlapped).toBe(false);
+        expect(maxParallel).toBe(2);
+        expect(order.filter(entry => entry.startsWith('a'))).toEqual(['a1', 'a2', 'a3']);
+        expect(order.filter(entry => entry.startsWith('b'))).toEqual(['b1', 'b2', 'b3']);
+    });
+
+    it('should honour an explicit key and a per-key concurrency limit', async () => {
+        const keyedQueue = new AsyncQueue<number>({ maxConcurrent: 4, keyConcurrency: 2 });
+        let running = 0;
+        let maxRunning = 0;
+
+        keyedQueue.setConsumer(async () => {
+            running++;
+            maxRunning = Math.max(maxRunning, running);
+            await new Promise(resolve => setTimeout(resolve, 10));
+            running--;
+        });
+
+        [1, 2, 3, 4, 5].forEach(item => keyedQueue.enqueue(item, { key: 'tenant' }));
+        await keyedQueue.start();
+
+        expect(maxRunning).toBe(2);
+        expect(keyedQueue.getStats().processedItems).toBe(5);
+    });
+
+    it('should skip an item whose id is already pending and share its result', async () => {
+        const dedupQueue = new AsyncQueue<number, number>();
+        dedupQueue.setConsumer(async (item) => item * 2);
+
+        const first = dedupQueue.enqueue(1, { id: 'job-1' });
+        const second = dedupQueue.enqueue(5, { id: 'job-1' });
+
+        expect(first.duplicate).toBe(false);
+        expect(second.duplicate).toBe(true);
+        expect(dedupQueue.getItems()).toHaveLength(1);
+
+        await dedupQueue.start();
+        await expect(first.promise).resolves.toBe(2);
+        await expect(second.promise).resolves.toBe(2);
+        expect(dedupQueue.getStats().dedupedItems).toBe(1);
+    });
+
+    it('should merge a duplicate into the pending item when a merge function is set', async () => {
+        const dedupQueue = new AsyncQueue<number[]>({
+            autoStart: false,
+            deduplication: { merge: (existing, incoming): number[] => [...existing, ...incoming] },
+        });
+        const processed: number[][] = [];
+        dedupQueue.setConsumer(async (item) => { processed.push(item); });
+
+        dedupQueue.enqueue([1], { id: 'batch' });
+        dedupQueue.enqueue([2, 3], { id: 'batch' });
+        await dedupQueue.start();
+
+        expect(processed).toEqual([[1, 2, 3]]);
+    });
+
+    it('should deduplicate ids of producers parked by the block overflow policy', async () => {
+        const blockQueue = new AsyncQueue<number, number>({ maxQueueSize: 1, overflow: 'block', deduplication: { merge: (a, b): number => a + b } });
+        blockQueue.setConsumer(async (item) => item);
+
+        blockQueue.enqueue(1, { id: 'filler' });
+        const parked = blockQueue.enqueueAsync(10, { id: 'job' });
+        const duplicate = await blockQueue.enqueueAsync(5, { id: 'job' });
+        const original = await Promise.race([parked, new Promise(resolve => setImmediate(() => resolve('pending')))]);
+
+        expect(duplicate.duplicate).toBe(true);
+        expect(original).toBe('pending');
+        expect(blockQueue.getStats().dedupedItems).toBe(1);
+
+        await blockQueue.drain();
+        expect(blockQueue.getStats().totalItems).toBe(2);
+        await expect(duplicate.promise).resolves.toBe(15);
+        await expect((await parked).promise).resolves.toBe(15);
+    });
+
+    it('should reject ids completed within the ttl window and accept them afterwards', async () => {
+        const dedupQueue = new AsyncQueue<number>({ deduplication: { ttlMs: 30 } });
+        const processed: number[] = [];
+        dedupQueue.setConsumer(async (item) => { processed.push(item); });
+
+        dedupQueue.enqueue(1, { id: 'job' });
+        await dedupQueue.start();
+
+        const repeated = dedupQueue.enqueue(2, { id: 'job' });
+        expect(repeated.duplicate).toBe(true);
+        await expect(repeated.promise).rejects.toMatchObject({ errorType: 'duplicate' });
+
+        await new Promise(resolve => setTimeout(resolve, 40));
+        dedupQueue.enqueue(3, { id: 'job' });
+        await dedupQueue.start();
+
+        expect(processed).toEqual([1, 3]);
+    });
+
+    it('should hold delayed items until they are due', async () => {
+        const delayedQueue = new AsyncQueue<string>();
+        const processed: string[] = [];
+        delayedQueue.setConsumer(async (item) => { processed.push(item); });
+
+        const enqueuedAt = Date.now();
+        delayedQueue.enqueue('later', { delayMs: 40, priority: 10 });
+        delayedQueue.enqueue('at', { runAt: new Date(enqueuedAt + 20) });
+        delayedQueue.enqueue('now');
+
+        expect(delayedQueue.getItems()).toEqual(['now']);
+        expect(delayedQueue.getStats().delayed).toBe(2);
+
+        await delayedQueue.start();
+
+        expect(processed).toEqual(['now', 'at', 'later']);
+        expect(Date.now() - enqueuedAt).toBeGreaterThanOrEqual(35);
+    });
+
+    it('should count delayed items towards maxQueueSize', async () => {
+        const delayedQueue = new AsyncQueue<number>({ maxQueueSize: 1 });
+        delayedQueue.setConsumer(async () => { });
+
+        delayedQueue.enqueue(1, { delayMs: 1000 });
+        const rejected = delayedQueue.enqueue(2);
+
+        await expect(rejected.promise).rejects.toMatchObject({ errorType: 'maxQueueSize' });
+        delayedQueue.clear();
+        expect(delayedQueue.getStats().delayed).toBe(0);
+    });
+
+    it('should enqueue recurring occurrences until the schedule is cancelled', async () => {
+        const recurringQueue = new AsyncQueue<string>({ autoStart: true });
+        const processed: string[] = [];
+        recurringQueue.setConsumer(async (item) => { processed.push(item); });
+
+        const job = recurringQueue.schedule('tick', { everyMs: 15 });
+        expect(job.nextRunAt()).toBeGreaterThan(Date.now());
+
+        await new Promise(resolve => setTimeout(resolve, 70));
+        expect(job.cancel()).toBe(true);
+        const count = processed.length;
+        await new Promise(resolve => setTimeout(resolve, 40));
+
+        expect(count).toBeGreaterThanOrEqual(3);
+        expect(processed).toHaveLength(count);
+        expect(job.nextRunAt()).toBeUndefined();
+    });
+
+    it('should skip recurring occurrences while paused', async () => {
+        const recurringQueue = new AsyncQueue<string>({ autoStart: true });
+        recurringQueue.setConsumer(async () => { });
+        recurringQueue.pause();
+
+        const job = recurringQueue.schedule('tick', { everyMs: 10 });
+        await new Promise(resolve => setTimeout(resolve, 50));
+        job.cancel();
+
+        expect(recurringQueue.getStats().totalItems).toBe(0);
+    });
+
+    it('should compute cron run times and reject invalid schedules', () => {
+        const cronQueue = new AsyncQueue<string>();
+        const job = cronQueue.schedule('report', { cron: '*/15 9-17 * * 1-5' });
+        const next = new Date(job.nextRunAt()!);
+        job.cancel();
+
+        expect(next.getMinutes() % 15).toBe(0);
+        expect(next.getHours()).toBeGreaterThanOrEqual(9);
+        expect(next.getHours()).toBeLessThanOrEqual(17);
+        expect([1, 2, 3, 4, 5]).toContain(next.getDay());
+
+        expect(() => cronQueue.schedule('report', { cron: '61 * * * *' })).toThrow('Invalid cron expression');
+        expect(() => cronQueue.schedule('report', {})).toThrow('Exactly one of everyMs or cron is required');
+    });
+
+    describe('worker consumer', () => {
+        type WorkerJob = { mode?: 'crash' | 'hang' | 'throw'; value: number };
+        let dir: string;
+        let modulePath: string;
+
+        beforeAll(() => {
+            dir = fs.mkdtempSync(path.join(os.tmpdir(), 'mjs-structs-'));
+            modulePath = path.join(dir, 'consumer.js');
+            fs.writeFileSync(modulePath, `
+                const { threadId } = require('worker_threads');
+                module.exports = async (job) => {
+                    if (job.mode === 'crash') process.exit(3);
+                    if (job.mode === 'hang') while (true) { }
+                    if (job.mode === 'throw') throw new Error('Bad input ' + job.value);
+                    return { doubled: job.value * 2, threadId };
+                };
+            `);
+        });
+
+        afterAll(() => {
+            fs.rmSync(dir, { recursive: true, force: true });
+        });
+
+        it('should run the consumer module in worker threads', async () => {
+            const workerQueue = new AsyncQueue<WorkerJob, { doubled: number; threadId: number }>({ maxConcurrent: 2 });
+            workerQueue.setWorkerConsumer(modulePath);
+
+            const handles = [1, 2, 3].map(value => workerQueue.enqueue({ value }));
+            await workerQueue.start();
+            const results = await Promise.all(handles.map(handle => handle.promise));
+            await workerQueue.shutdown();
+
+            expect(results.map(result => result.doubled)).toEqual([2, 4, 6]);
+            expect(results.every(result => result.threadId > 0)).toBe(true);
+            expect(workerQueue.getStats().processedItems).toBe(3);
+        });
+
+        it('should report thrown errors and recover from crashed workers', async () => {
+            const workerQueue = new AsyncQueue<WorkerJob, { doubled: number }>({ maxRetries: 1, retryDelay: 1 });
+            const retries: string[] = [];
+            workerQueue.on('retry', ({ error }) => retries.push(error.message));
+            workerQueue.setWorkerConsumer(modulePath, { size: 1 });
+
+            const thrown = workerQueue.enqueue({ mode: 'throw', value: 1 });
+            const crashed = workerQueue.enqueue({ mode: 'crash', value: 2 });
+            const healthy = workerQueue.enqueue({ value: 3 });
+            await workerQueue.start();
+            await workerQueue.shutdown();
+
+            await expect(thrown.promise).rejects.toMatchObject({ errorType: 'error', errorMessage: 'Bad input 1' });
+            await expect(crashed.promise).rejects.toMatchObject({ errorType: 'error', errorMessage: 'Worker exited with code 3' });
+            await expect(healthy.promise).resolves.toMatchObject({ doubled: 6 });
+            expect(retries).toEqual(['Bad input 1', 'Worker exited with code 3']);
+        });
+
+        it('should terminate a stuck worker when its job times out', async () => {
+            const workerQueue = new AsyncQueue<WorkerJob, { doubled: number }>({ timeout: 200 });
+            workerQueue.setWorkerConsumer(modulePath, { size: 1 });
+
+            const stuck = workerQueue.enqueue({ mode: 'hang', value: 1 });
+            const next = workerQueue.enqueue({ value: 2 });
+            await workerQueue.start();
+            await workerQueue.shutdown();
+
+            await expect(stuck.promise).rejects.toMatchObject({ errorType: 'timeout' });
+            await expect(next.promise).resolves.toMatchObject({ doubled: 4 });
+        });
+    });
+
+    it('should run items only after their dependencies succeed', async () => {
+        const graphQueue = new AsyncQueue<string>({ maxConcurrent: 3 });
+        const order: string[] = [];
+        graphQueue.setConsumer(async (item) => {
+            await new Promise(resolve => setTimeout(resolve, 5));
+            order.push(item);
+        });
+
+        graphQueue.enqueue('deploy', { id: 'deploy', dependsOn: ['test', 'lint'] });
+        graphQueue.enqueue('test', { id: 'test', dependsOn: ['build'] });
+        graphQueue.enqueue('lint', { id: 'lint' });
+        graphQueue.enqueue('build', { id: 'build' });
+        expect(graphQueue.getStats().waiting).toBe(2);
+
+        graphQueue.start();
+        const outcomes = await graphQueue.waitForGraph(['deploy']);
+
+        expect(order.indexOf('build')).toBeLessThan(order.indexOf('test'));
+        expect(order.indexOf('test')).toBeLessThan(order.indexOf('deploy'));
+        expect(order.indexOf('lint')).toBeLessThan(order.indexOf('deploy'));
+        expect(Object.fromEntries(outcomes)).toEqual({ deploy: 'succeeded', test: 'succeeded', lint: 'succeeded', build: 'succeeded' });
+    });
+
+    it('should cancel or skip dependents of a failed job', async () => {
+        for (const policy of ['cancel', 'skip'] as const) {
+            const graphQueue = new AsyncQueue<string>({ dependencyFailure: policy });
+            const errors: string[] = [];
+            graphQueue.on('error', ({ item }) => errors.push(item));
+            graphQueue.setConsumer(async (item) => {
+                if (item === 'build') throw new Error('Compilation failed');
+            });
+
+            graphQueue.enqueue('build', { id: 'build' });
+            const test = graphQueue.enqueue('test', { id: 'test', dependsOn: ['build'] });
+            const deploy = graphQueue.enqueue('deploy', { id: 'deploy', dependsOn: ['test'] });
+            await graphQueue.start();
+
+            const errorType = policy === 'cancel' ? 'cancelled' : 'skipped';
+            await expect(test.promise).rejects.toMatchObject({ errorType, errorMessage: 'Dependency "build" failed' });
+            await expect(deploy.promise).rejects.toMatchObject({ errorType, errorMessage: `Dependency "test" ${errorType}` });
+            expect(errors).toEqual(policy === 'cancel' ? ['build', 'test', 'deploy'] : ['build']);
+            expect(Object.fromEntries(await graphQueue.waitForGraph())).toEqual({});
+            expect(Object.fromEntries(await graphQueue.waitForGraph(['deploy']))).toEqual({ deploy: errorType });
+        }
+    });
+
+    it('should end the run when a failed dependency drops the only waiting item', async () => {
+        const graphQueue = new AsyncQueue<string>({ maxConcurrent: 2 });
+        let ended = 0;
+        graphQueue.on('end', () => ended++);
+        graphQueue.setConsumer(async (item) => {
+            await new Promise(resolve => setTimeout(resolve, item === 'a' ? 50 : 10));
+            if (item === 'a') throw new Error('Build failed');
+        });
+
+        graphQueue.enqueue('a', { id: 'a' });
+        graphQueue.enqueue('c');
+        const dependent = graphQueue.enqueue('b', { dependsOn: ['a'] });
+        await graphQueue.start();
+
+        await expect(dependent.promise).rejects.toMatchObject({ errorType: 'cancelled' });
+        expect(ended).toBe(1);
+        expect(graphQueue.getStats().waiting).toBe(0);
+    });
+
+    it('should release job outcomes once outcomeTtlMs has passed', async () => {
+        const clock = new VirtualClock();
+        const graphQueue = new AsyncQueue<string>({ clock, outcomeTtlMs: 1000 });
+        graphQueue.setConsumer(async () => { });
+
+        graphQueue.enqueue('build', { id: 'build' });
+        await graphQueue.drain();
+        await clock.advance(999);
+
+        graphQueue.enqueue('test', { id: 'test', dependsOn: ['build'] });
+        expect(graphQueue.getStats().waiting).toBe(0);
+        expect(Object.fromEntries(await graphQueue.waitForGraph(['build']))).toEqual({ build: 'succeeded' });
+        await graphQueue.drain();
+
+        // The outcome of build is gone, so a later dependent waits for build to run again.
+        await clock.advance(1);
+        graphQueue.enqueue('deploy', { id: 'deploy', dependsOn: ['build'] });
+        expect(graphQueue.getStats().waiting).toBe(1);
+    });
+
+    it('should reject dependency cycles at enqueue time', () => {
+        const graphQueue = new AsyncQueue<string>();
+
+        graphQueue.enqueue('a', { id: 'a', dependsOn: ['b'] });
+        graphQueue.enqueue('b', { id: 'b', dependsOn: ['c'] });
+
+        expect(() => graphQueue.enqueue('c', { id: 'c', dependsOn: ['a'] })).toThrow('Dependency cycle: c -> a -> b -> c');
+        expect(() => graphQueue.enqueue('d', { id: 'd', dependsOn: ['d'] })).toThrow('Dependency cycle: d -> d');
+        expect(graphQueue.getStats().waiting).toBe(2);
+    });
+
+    it('should stop dequeuing while the circuit is open and close it after a successful trial', async () => {
+        const breakerQueue = new AsyncQueue<number>({ circuitBreaker: { failureThreshold: 2, resetTimeoutMs: 50 } });
+        const transitions: string[] = [];
+        const calls: number[] = [];
+        let healthy = false;
+        breakerQueue.on('circuit', ({ state }) => transitions.push(state));
+        breakerQueue.setConsumer(async (item) => {
+            calls.push(item);
+            if (!healthy) throw new Error('Service unavailable');
+        });
+
+        [1, 2, 3, 4, 5].forEach(item => breakerQueue.enqueue(item));
+        const running = breakerQueue.start();
+
+        await new Promise(resolve => setTimeout(resolve, 20));
+        expect(breakerQueue.getStats()).toMatchObject({ circuit: 'open', queued: 3 });
+        expect(breakerQueue.getStats().circuitNextAttemptAt).toBeGreaterThan(Date.now());
+        expect(calls).toEqual([1, 2]);
+
+        healthy = true;
+        await running;
+
+        expect(calls).toEqual([1, 2, 3, 4, 5]);
+        expect(transitions).toEqual(['open', 'half-open', 'closed']);
+        expect(breakerQueue.getStats().circuit).toBe('closed');
+    });
+
+    it('should fail items fast while the circuit is open in reject mode', async () => {
+        const breakerQueue = new AsyncQueue<number>({
+            maxRetries: 3,
+            retryDelay: 1,
+            circuitBreaker: { failureRate: 0.5, minimumCalls: 2, resetTimeoutMs: 1000, whenOpen: 'reject' },
+        });
+        let calls = 0;
+        breakerQueue.setConsumer(async () => {
+            calls++;
+            throw new Error('Service unavailable');
+        });
+
+        const first = breakerQueue.enqueue(1);
+        const second = breakerQueue.enqueue(2);
+        await breakerQueue.start();
+
+        await expect(first.promise).rejects.toMatchObject({ errorType: 'circuitOpen' });
+        await expect(second.promise).rejects.toMatchObject({ errorType: 'circuitOpen', errorMessage: 'Circuit is open' });
+        expect(calls).toBe(2);
+        expect(breakerQueue.getStats()).toMatchObject({ circuit: 'open', failedItems: 2, retries: 2 });
+        expect(breakerQueue.toPrometheus()).toContain('mjs_async_queue_circuit_state 2');
+    });
+
+    it('should fire virtual timers in due order only when the clock advances', async () => {
+        const clock = new VirtualClock(1000);
+        const fired: string[] = [];
+
+        clock.setTimeout(() => fired.push('b'), 20);
+        clock.setTimeout(() => fired.push('a'), 10);
+        const cancelled = clock.setTimeout(() => fired.push('cancelled'), 15);
+        clock.setTimeout(() => {
+            fired.push('c');
+            clock.setTimeout(() => fired.push('chained'), 5);
+        }, 20);
+        clock.clearTimeout(cancelled);
+
+        await clock.advance(19);
+        expect(fired).toEqual(['a']);
+        expect(clock.now()).toBe(1019);
+
+        await clock.advance(10);
+        expect(fired).toEqual(['a', 'b', 'c', 'chained']);
+        expect(clock.pendingTimers()).toBe(0);
+    });
+
+    it('should drive delays, schedules and stats from an injected clock', async () => {
+        const clock = new VirtualClock();
+        const clockQueue = new AsyncQueue<string>({ autoStart: true, clock });
+        const processed: string[] = [];
+        clockQueue.setConsumer(async (item) => {
+            await new Promise<void>(resolve => clock.setTimeout(resolve, 5));
+            processed.push(`${item}@${clock.now()}`);
+        });
+
+        clockQueue.enqueue('delayed', { delayMs: 1000 });
+        const job = clockQueue.schedule('tick', { everyMs: 400 });
+
+        await clock.advance(1300);
+        job.cancel();
+        await clock.advance(100);
+
+        expect(processed).toEqual(['tick@405', 'tick@805', 'delayed@1005', 'tick@1205']);
+        expect(clockQueue.getStats().processingTime).toMatchObject({ min: 5, max: 5 });
+    });
+
+    it('should snapshot pending jobs and stats and restore them in order', async () => {
+        const clock = new VirtualClock(1000);
+        const source = new AsyncQueue<{ name: string; due: Date }>({ clock });
+        const due = new Date('2030-01-01T00:00:00.000Z');
+        source.setConsumer(async () => { });
+
+        source.enqueue({ name: 'low', due }, { id: 'low' });
+        source.enqueue({ name: 'high', due }, { id: 'high', priority: 5 });
+        source.enqueue({ name: 'later', due }, { id: 'later', delayMs: 500 });
+        source.enqueue({ name: 'after', due }, { id: 'after', dependsOn: ['low'] });
+
+        const snapshot = JSON.parse(JSON.stringify(source));
+        expect(snapshot.pending.map((job: { state: string; element: QueueElement<unknown> }) => `${job.state}:${job.element.id}`))
+            .toEqual(['queued:high', 'queued:low', 'delayed:later', 'waiting:after']);
+        expect(snapshot.stats).toMatchObject({ totalItems: 4, queued: 2, delayed: 1, waiting: 1 });
+
+        const restored = AsyncQueue.fromJSON<{ name: string; due: Date }, void>(snapshot, { clock });
+        const processed: string[] = [];
+        restored.setConsumer(async (item) => {
+            expect(item.due).toEqual(due);
+            processed.push(item.name);
+        });
+        expect(restored.getStats()).toMatchObject({ totalItems: 4, queued: 2, delayed: 1, waiting: 1 });
+
+        restored.start();
+        await clock.advance(500);
+        await restored.onIdle();
+
+        expect(processed).toEqual(['high', 'low', 'after', 'later']);
+        expect(restored.getStats().processedItems).toBe(4);
+    });
+
+    it('should include in-flight jobs in a snapshot with their current attempt', async () => {
+        const source = new AsyncQueue<number>({ maxRetries: 2 });
+        let release!: () => void;
+        source.setConsumer(() => new Promise<void>(resolve => { release = resolve; }));
+        source.enqueue(7, { id: 'seven' });
+        source.start();
+        await new Promise(resolve => setImmediate(resolve));
+
+        const snapshot = source.toJSON();
+        expect(snapshot.pending).toEqual([{ state: 'active', element: expect.objectContaining({ id: 'seven', item: 7, attempts: 1 }) }]);
+        expect(snapshot.stats.inFlight).toBe(1);
+        expect(() => AsyncQueue.fromJSON({ type: 'Queue' } as never)).toThrow('Expected a serialized AsyncQueue');
+
+        release();
+        await source.onIdle();
+    });
+});
@@ -0,0 +1,105 @@
+import { Deque } from '../deque/deque';
+
+describe('Deque', () => {
+    let deque: Deque<number>;
+
+    beforeEach(() => {
+        deque = new Deque<number>();
+    });
+
+    test('should create empty deque', () => {
+        expect(deque.isEmpty()).toBe(true);
+        expect(deque.size()).toBe(0);
+        expect(deque.peekFront()).toBeUndefined();
+        expect(deque.peekBack()).toBeUndefined();
+        expect(deque.popFront()).toBeUndefined();
+        expect(deque.popBack()).toBeUndefined();
+    });
+
+    test('should push and pop at both ends', () => {
+        deque.pushBack(2);
+        deque.pushBack(3);
+        deque.pushFront(1);
+        deque.pushFront(0);
+
+        expect(deque.toArray()).toEqual([0, 1, 2, 3]);
+        expect(deque.peekFront()).toBe(0);
+        expect(deque.peekBack()).toBe(3);
+        expect(deque.popFront()).toBe(0);
+        expect(deque.popBack()).toBe(3);
+        expect(deque.toArray()).toEqual([1, 2]);
+        expect(deque.size()).toBe(2);
+    });
+
+    test('should keep the order while growing past the initial capacity', () => {
+        for (let i = 0; i < 40; i++) {
+            if (i % 2 === 0) deque.pushBack(i);
+            else deque.pushFront(i);
+        }
+
+        const expected: number[] = [];
+        for (let i = 39; i > 0; i -= 2) expected.push(i);
+        for (let i = 0; i < 40; i += 2) expected.push(i);
+        expect(deque.toArray()).toEqual(expected);
+    });
+
+    test('should read by index from either end', () => {
+        [10, 20, 30].forEach(item => deque.pushBack(item));
+
+        expect(deque.at(0)).toBe(10);
+        expect(deque.at(2)).toBe(30);
+        expect(deque.at(-1)).toBe(30);
+        expect(deque.at(-3)).toBe(10);
+        expect(deque.at(3)).toBeUndefined();
+        expect(deque.at(-4)).toBeUndefined();
+    });
+
+    test('should evict from the opposite end when the capacity is reached', () => {
+        const window = new Deque<number>({ capacity: 3 });
+        [1, 2, 3, 4].forEach(item => window.pushBack(item));
+        expect(window.isFull()).toBe(true);
+        expect(window.toArray()).toEqual([2, 3, 4]);
+
+        window.pushFront(0);
+        expect(window.toArray()).toEqual([0, 2, 3]);
+        expect(window.size()).toBe(3);
+
+        expect(() => new Deque({ capacity: 0 })).toThrow('Capacity must be at least 1');
+    });
+
+    test('should support the iteration protocols and collection helpers', async () => {
+        const source = Deque.from([1, 2, 3, 4], { capacity: 4 });
+
+        const awaited: number[] = [];
+        for await (const item of source) awaited.push(item);
+        expect(awaited).toEqual([1, 2, 3, 4]);
+        expect([...source]).toEqual([1, 2, 3, 4]);
+
+        const doubled = source.map(item => item * 2);
+        expect(doubled).toBeInstanceOf(Deque);
+        expect(doubled.toArray()).toEqual([2, 4, 6, 8]);
+        expect(doubled.isFull()).toBe(true);
+        expect(source.filter(item => item > 2).toArray()).toEqual([3, 4]);
+        expect(source.reduce((sum, item) => sum + item, 0)).toBe(10);
+        expect(source.includes(3)).toBe(true);
+    });
+
+    test('should clear all items', () => {
+        [1, 2, 3].forEach(item => deque.pushFront(item));
+        deque.clear();
+
+        expect(deque.isEmpty()).toBe(true);
+        deque.pushFront(1);
+        expect(deque.toArray()).toEqual([1]);
+    });
+
+    test('should round-trip through JSON', () => {
+        const source = Deque.from([new Map([['a', 1]]), new Map([['b', 2]])], { capacity: 2 });
+
+        const restored = Deque.fromJSON<Map<string, number>>(JSON.stringify(source));
+
+        expect(restored.peekBack()).toEqual(new Map([['b', 2]]));
+        expect(restored.isFull()).toBe(true);
+        expect(restored.toArray()).toEqual(source.toArray());
+    });
+});
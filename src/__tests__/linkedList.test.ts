@@ -51,4 +51,125 @@ describe('LinkedList', () => {
 
         expect(errors).toEqual([2]);
     });
+
+    test('should iterate from head to tail with the iteration protocols', async () => {
+        list.append(1);
+        list.append(2);
+        list.append(3);
+
+        const awaited: number[] = [];
+        for await (const value of list) awaited.push(value);
+
+        expect([...list]).toEqual([1, 2, 3]);
+        expect(Array.from(list)).toEqual([1, 2, 3]);
+        expect(awaited).toEqual([1, 2, 3]);
+    });
+
+    test('should support the collection helpers', () => {
+        const source = LinkedList.from([1, 2, 3, 4]);
+
+        const labels = source.map((value, index) => `${index}:${value}`);
+        expect(labels).toBeInstanceOf(LinkedList);
+        expect(labels.toArray()).toEqual(['0:1', '1:2', '2:3', '3:4']);
+        expect(source.filter(value => value > 2).toArray()).toEqual([3, 4]);
+        expect(source.reduce((sum, value) => sum + value, 0)).toBe(10);
+        expect(source.some(value => value === 4)).toBe(true);
+        expect(source.every(value => value > 0)).toBe(true);
+        expect(source.find(value => value > 5)).toBeUndefined();
+        expect(LinkedList.from([NaN]).includes(NaN)).toBe(true);
+    });
+
+    test('should round-trip through JSON', () => {
+        const source = LinkedList.from([new Set([1, 2]), new Set<number>()]);
+
+        const restored = LinkedList.fromJSON<Set<number>>(JSON.stringify(source));
+
+        expect(restored.size()).toBe(2);
+        expect(restored.toArray()).toEqual([new Set([1, 2]), new Set()]);
+    });
+
+    // Checks the values, the size and that appending still links after the tail.
+    const expectList = (expected: number[]): void => {
+        expect(list.toArray()).toEqual(expected);
+        expect(list.size()).toBe(expected.length);
+        list.append(99);
+        expect(list.get(expected.length)).toBe(99);
+        list.removeLast();
+    };
+
+    test('should prepend and insert at any position', () => {
+        list.prepend(2);
+        list.prepend(1);
+        list.insertAt(2, 4);
+        list.insertAt(2, 3);
+        list.insertAt(0, 0);
+
+        expectList([0, 1, 2, 3, 4]);
+        expect(() => list.insertAt(6, 5)).toThrow('Index 6 is out of bounds');
+        expect(() => list.insertAt(-1, 5)).toThrow(RangeError);
+    });
+
+    test('should look values up by index and value', () => {
+        list = LinkedList.from([10, 20, 30, 20]);
+
+        expect(list.get(0)).toBe(10);
+        expect(list.get(3)).toBe(20);
+        expect(list.get(4)).toBeUndefined();
+        expect(list.indexOf(20)).toBe(1);
+        expect(list.indexOf(40)).toBe(-1);
+        expect(list.find(value => value > 15)).toBe(20);
+        expect(list.contains(30)).toBe(true);
+        expect(list.contains(40)).toBe(false);
+    });
+
+    test('should remove from the ends, by index and by predicate', () => {
+        list = LinkedList.from([1, 2, 3, 4, 5, 6]);
+
+        expect(list.removeFirst()).toBe(1);
+        expect(list.removeLast()).toBe(6);
+        expect(list.removeAt(1)).toBe(3);
+        expect(list.removeAt(5)).toBeUndefined();
+        expect(list.remove(value => value % 2 === 0)).toBe(2);
+        expect(list.remove(value => value > 10)).toBeUndefined();
+        expectList([4, 5]);
+
+        expect(list.removeLast()).toBe(5);
+        expect(list.removeFirst()).toBe(4);
+        expect(list.removeFirst()).toBeUndefined();
+        expect(list.removeLast()).toBeUndefined();
+        expectList([]);
+    });
+
+    test('should reverse in place', () => {
+        list.reverse();
+        expectList([]);
+
+        list = LinkedList.from([1, 2, 3]);
+        list.reverse();
+        expectList([3, 2, 1]);
+    });
+
+    test('should splice ranges like an array', () => {
+        list = LinkedList.from([1, 2, 3, 4, 5]);
+
+        expect(list.splice(1, 2, 20, 30, 40)).toEqual([2, 3]);
+        expectList([1, 20, 30, 40, 4, 5]);
+        expect(list.splice(-2)).toEqual([4, 5]);
+        expectList([1, 20, 30, 40]);
+        expect(list.splice(0, 1)).toEqual([1]);
+        expect(list.splice(10, 0, 50)).toEqual([]);
+        expectList([20, 30, 40, 50]);
+        expect(list.splice(0)).toEqual([20, 30, 40, 50]);
+        expectList([]);
+    });
+
+    test('should copy ranges with slice', () => {
+        list = LinkedList.from([1, 2, 3, 4, 5]);
+
+        expect(list.slice(1, 3).toArray()).toEqual([2, 3]);
+        expect(list.slice(-2).toArray()).toEqual([4, 5]);
+        expect(list.slice().toArray()).toEqual([1, 2, 3, 4, 5]);
+        expect(list.slice(4, 2).isEmpty()).toBe(true);
+        expect(list.size()).toBe(5);
+    });
 }); 
\ No newline at end of file
@@ -54,4 +54,110 @@ describe('Queue', () => {
         expect(queue.dequeue()).toBeUndefined();
         expect(queue.peek()).toBeUndefined();
     });
-}); 
\ No newline at end of file
+
+    test('should return a copy of the items', () => {
+        queue.enqueue(1);
+        queue.enqueue(2);
+
+        const items = queue.getItems();
+        items.push(3);
+
+        expect(queue.getItems()).toEqual([1, 2]);
+        expect(queue.size()).toBe(2);
+    });
+
+    test('should keep FIFO order while the buffer wraps and grows', () => {
+        const expected: number[] = [];
+        let next = 0;
+
+        for (let round = 0; round < 50; round++) {
+            for (let i = 0; i < 7; i++) {
+                queue.enqueue(next);
+                expected.push(next++);
+            }
+            for (let i = 0; i < 5; i++) {
+                expect(queue.dequeue()).toBe(expected.shift());
+            }
+        }
+
+        expect(queue.getItems()).toEqual(expected);
+        expect(queue.peek()).toBe(expected[0]);
+    });
+
+    test('should consume falsy items', () => {
+        const values = new Queue<number | string>();
+        const consumed: (number | string)[] = [];
+        values.enqueue(0);
+        values.enqueue('');
+        values.enqueue(1);
+
+        values.consume(item => consumed.push(item));
+
+        expect(consumed).toEqual([0, '', 1]);
+        expect(values.isEmpty()).toBe(true);
+    });
+
+    test('should apply the overflow policy when the capacity is reached', () => {
+        const throwing = new Queue<number>({ capacity: 2 });
+        throwing.enqueue(1);
+        throwing.enqueue(2);
+        expect(throwing.isFull()).toBe(true);
+        expect(() => throwing.enqueue(3)).toThrow('Queue is full');
+
+        const dropOldest = new Queue<number>({ capacity: 2, overflow: 'drop-oldest' });
+        [1, 2, 3].forEach(item => dropOldest.enqueue(item));
+        expect(dropOldest.getItems()).toEqual([2, 3]);
+
+        const dropNewest = new Queue<number>({ capacity: 2, overflow: 'drop-newest' });
+        expect([1, 2, 3].map(item => dropNewest.enqueue(item))).toEqual([true, true, false]);
+        expect(dropNewest.getItems()).toEqual([1, 2]);
+    });
+
+    test('should iterate from front to back with the iteration protocols', async () => {
+        [1, 2, 3].forEach(item => queue.enqueue(item));
+
+        const visited: number[] = [];
+        for (const item of queue) visited.push(item);
+        const awaited: number[] = [];
+        for await (const item of queue) awaited.push(item);
+
+        expect(visited).toEqual([1, 2, 3]);
+        expect(awaited).toEqual([1, 2, 3]);
+        expect([...queue]).toEqual([1, 2, 3]);
+        expect(Array.from(queue)).toEqual([1, 2, 3]);
+        expect(queue.size()).toBe(3);
+    });
+
+    test('should support the collection helpers', () => {
+        const source = Queue.from([1, 2, 3, 4], { capacity: 4 });
+
+        const doubled = source.map(item => item * 2);
+        expect(doubled).toBeInstanceOf(Queue);
+        expect(doubled.toArray()).toEqual([2, 4, 6, 8]);
+        expect(doubled.isFull()).toBe(true);
+        expect(source.filter(item => item % 2 === 0).toArray()).toEqual([2, 4]);
+        expect(source.reduce((sum, item) => sum + item, 0)).toBe(10);
+        expect(source.some(item => item > 3)).toBe(true);
+        expect(source.every(item => item > 1)).toBe(false);
+        expect(source.find(item => item > 2)).toBe(3);
+        expect(source.includes(4)).toBe(true);
+        expect(source.includes(5)).toBe(false);
+
+        const seen: [number, number][] = [];
+        source.forEachSync((item, index) => seen.push([item, index]));
+        expect(seen).toEqual([[1, 0], [2, 1], [3, 2], [4, 3]]);
+    });
+
+    test('should round-trip through JSON with its order and options', () => {
+        const source = Queue.from([new Date(0), new Date(1000)], { capacity: 2, overflow: 'drop-oldest' });
+
+        const restored = Queue.fromJSON<Date>(JSON.stringify(source));
+
+        expect(restored.toArray()).toEqual([new Date(0), new Date(1000)]);
+        expect(restored.dequeue()).toBeInstanceOf(Date);
+        restored.enqueue(new Date(2000));
+        restored.enqueue(new Date(3000));
+        expect(restored.toArray()).toEqual([new Date(2000), new Date(3000)]);
+        expect(queue.toJSON()).toEqual({ type: 'Queue', items: [], overflow: 'throw' });
+    });
+});
@@ -0,0 +1,71 @@
+import { classCodec, decodeValue, encodeValue, ValueCodec } from '../collection/serialization';
+import { Queue } from '../queue/queue';
+
+class Point {
+    constructor(public x: number, public y: number) { }
+
+    public length(): number {
+        return Math.hypot(this.x, this.y);
+    }
+}
+
+describe('serialization', () => {
+    const roundTrip = (value: unknown, codecs?: ValueCodec[]): unknown =>
+        decodeValue(JSON.parse(JSON.stringify(encodeValue(value, { codecs }))), { codecs });
+
+    test('should round-trip the built-in value types, nested in arrays and objects', () => {
+        const value = {
+            at: new Date('2024-05-01T10:00:00.000Z'),
+            big: BigInt('1180591620717411303424'),
+            lookup: new Map<unknown, unknown>([[new Date(0), [BigInt(1)]], ['nested', new Set(['a'])]]),
+            list: [new Date(5), null, 'text'],
+        };
+
+        expect(roundTrip(value)).toEqual(value);
+        expect((roundTrip(new Date(NaN)) as Date).getTime()).toBeNaN();
+    });
+
+    test('should rebuild class instances with a class codec', () => {
+        const codecs = [classCodec(Point)];
+
+        const restored = roundTrip([new Point(3, 4)], codecs) as Point[];
+
+        expect(restored[0]).toBeInstanceOf(Point);
+        expect(restored[0].length()).toBe(5);
+    });
+
+    test('should use custom encode and decode functions in a class codec', () => {
+        const codecs = [classCodec(Point, {
+            tag: 'point',
+            encode: (point): number[] => [point.x, point.y],
+            decode: (data): Point => new Point(...(data as [number, number])),
+        })];
+
+        expect(encodeValue(new Point(1, 2), { codecs })).toEqual({ $codec: 'point', value: [1, 2] });
+        expect(roundTrip(new Point(1, 2), codecs)).toEqual(new Point(1, 2));
+    });
+
+    test('should keep plain objects that use the codec key', () => {
+        const value = { $codec: 'Date', value: 'not a date' };
+
+        expect(roundTrip(value)).toEqual(value);
+    });
+
+    test('should let custom codecs replace the built-in ones', () => {
+        const epochDates: ValueCodec<Date> = {
+            tag: 'EpochDate',
+            test: (value): value is Date => value instanceof Date,
+            encode: (value): number => value.getTime(),
+            decode: (data): Date => new Date(data as number),
+        };
+
+        expect(encodeValue(new Date(10), { codecs: [epochDates] })).toEqual({ $codec: 'EpochDate', value: 10 });
+    });
+
+    test('should serialize nested structures and fail on unknown codecs', () => {
+        const queue = Queue.from([Queue.from([1, 2])]);
+
+        expect(JSON.parse(JSON.stringify(queue)).items).toEqual([{ type: 'Queue', items: [1, 2], overflow: 'throw' }]);
+        expect(() => decodeValue({ $codec: 'Point', value: {} })).toThrow('No codec registered for "Point"');
+    });
+});
@@ -99,4 +99,69 @@ describe('Stack', () => {
         stack.pop();
         expect(stack.size()).toBe(0);
     });
+
+    test('should iterate from top to bottom with the iteration protocols', async () => {
+        [1, 2, 3].forEach(item => stack.push(item));
+
+        const awaited: number[] = [];
+        for await (const item of stack) awaited.push(item);
+
+        expect([...stack]).toEqual([3, 2, 1]);
+        expect(Array.from(stack)).toEqual([3, 2, 1]);
+        expect(awaited).toEqual([3, 2, 1]);
+        expect(stack.size()).toBe(3);
+    });
+
+    test('should keep the stacking order in from, map and filter', () => {
+        const source = Stack.from([1, 2, 3, 4]);
+        expect(source.peek()).toBe(4);
+
+        const doubled = source.map(item => item * 2);
+        expect(doubled).toBeInstanceOf(Stack);
+        expect(doubled.pop()).toBe(8);
+        expect(doubled.toArray()).toEqual([6, 4, 2]);
+
+        const odd = source.filter(item => item % 2 === 1);
+        expect(odd.pop()).toBe(3);
+        expect(odd.pop()).toBe(1);
+        expect(source.size()).toBe(4);
+    });
+
+    test('should support the collection helpers', () => {
+        const source = Stack.from([1, 2, 3]);
+
+        expect(source.reduce((items, item) => items + item, '')).toBe('321');
+        expect(source.some(item => item === 1)).toBe(true);
+        expect(source.every(item => item < 3)).toBe(false);
+        expect(source.find(item => item < 3)).toBe(2);
+        expect(source.includes(2)).toBe(true);
+
+        const indexes: number[] = [];
+        source.forEachSync((_, index) => indexes.push(index));
+        expect(indexes).toEqual([0, 1, 2]);
+    });
+
+    test('should evict the bottom item when the capacity is reached', () => {
+        const bounded = new Stack<number>({ capacity: 2 });
+        [1, 2, 3].forEach(item => bounded.push(item));
+
+        expect(bounded.isFull()).toBe(true);
+        expect(bounded.toArray()).toEqual([3, 2]);
+        expect(() => new Stack({ capacity: 0 })).toThrow('Capacity must be at least 1');
+
+        bounded.clear();
+        expect(bounded.isEmpty()).toBe(true);
+    });
+
+    test('should round-trip through JSON with the same top item', () => {
+        const source = Stack.from([BigInt(1), BigInt(2), BigInt(3)], { capacity: 3 });
+
+        const serialized = source.toJSON();
+        const restored = Stack.fromJSON<bigint>(JSON.stringify(serialized));
+
+        expect(serialized.capacity).toBe(3);
+        expect(restored.pop()).toBe(BigInt(3));
+        expect(restored.toArray()).toEqual([BigInt(2), BigInt(1)]);
+        expect(() => Stack.fromJSON({ type: 'Queue', items: [] } as never)).toThrow('Expected a serialized Stack');
+    });
 }); 
\ No newline at end of file
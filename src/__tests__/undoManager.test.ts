@@ -0,0 +1,170 @@
+import { UndoCommand, UndoManager } from '../stack/undoManager';
+
+describe('UndoManager', () => {
+    let text: string;
+    let history: UndoManager;
+
+    // Appends characters to text; consecutive typing merges into one command.
+    const type = (chars: string): UndoCommand => ({
+        label: `type ${chars}`,
+        do: (): void => {
+            text += chars;
+        },
+        undo: (): void => {
+            text = text.slice(0, -chars.length);
+        },
+        merge: (next: UndoCommand): UndoCommand | undefined =>
+            next.label?.startsWith('type ') ? type(chars + next.label.slice(5)) : undefined,
+    });
+
+    const append = (chars: string): UndoCommand => ({
+        label: `append ${chars}`,
+        do: (): void => {
+            text += chars;
+        },
+        undo: (): void => {
+            text = text.slice(0, -chars.length);
+        },
+    });
+
+    beforeEach(() => {
+        text = '';
+        history = new UndoManager();
+    });
+
+    test('should undo and redo commands', async () => {
+        await history.execute(append('a'));
+        await history.execute(append('b'));
+        expect(text).toBe('ab');
+        expect(history.canUndo()).toBe(true);
+        expect(history.canRedo()).toBe(false);
+
+        expect(await history.undo()).toBe(true);
+        expect(text).toBe('a');
+        expect(history.redoLabel()).toBe('append b');
+
+        expect(await history.redo()).toBe(true);
+        expect(text).toBe('ab');
+        expect(history.undoLabel()).toBe('append b');
+    });
+
+    test('should resolve to false when there is nothing to undo or redo', async () => {
+        expect(await history.undo()).toBe(false);
+        expect(await history.redo()).toBe(false);
+    });
+
+    test('should clear the redo stack when a new command is executed', async () => {
+        await history.execute(append('a'));
+        await history.undo();
+        await history.execute(append('b'));
+
+        expect(history.canRedo()).toBe(false);
+        expect(text).toBe('b');
+    });
+
+    test('should evict the oldest entries beyond the maximum depth', async () => {
+        const bounded = new UndoManager({ maxDepth: 2 });
+        for (const chars of ['a', 'b', 'c']) {
+            await bounded.execute(append(chars));
+        }
+
+        expect(await bounded.undo()).toBe(true);
+        expect(await bounded.undo()).toBe(true);
+        expect(await bounded.undo()).toBe(false);
+        expect(text).toBe('a');
+        expect(() => new UndoManager({ maxDepth: 0 })).toThrow('maxDepth must be at least 1');
+    });
+
+    test('should merge consecutive compatible commands', async () => {
+        await history.execute(type('h'));
+        await history.execute(type('i'));
+        await history.execute(append('!'));
+
+        expect(history.undoLabel()).toBe('append !');
+        await history.undo();
+        expect(history.undoLabel()).toBe('type hi');
+        await history.undo();
+        expect(text).toBe('');
+        expect(history.canUndo()).toBe(false);
+    });
+
+    test('should group a transaction into a single entry', async () => {
+        await history.transaction(async () => {
+            await history.execute(append('a'));
+            await history.execute(append('b'));
+        }, 'append ab');
+
+        expect(history.undoLabel()).toBe('append ab');
+        await history.undo();
+        expect(text).toBe('');
+        await history.redo();
+        expect(text).toBe('ab');
+        expect(history.canRedo()).toBe(false);
+    });
+
+    test('should roll back a failed transaction', async () => {
+        await history.execute(append('x'));
+
+        await expect(history.transaction(async () => {
+            await history.execute(append('a'));
+            await history.execute(append('b'));
+            throw new Error('Failed');
+        })).rejects.toThrow('Failed');
+
+        expect(text).toBe('x');
+        expect(history.undoLabel()).toBe('append x');
+    });
+
+    test('should only roll back the inner transaction', async () => {
+        await history.transaction(async () => {
+            await history.execute(append('a'));
+            await history.transaction(async () => {
+                await history.execute(append('b'));
+                throw new Error('Inner');
+            }).catch(() => undefined);
+            await history.execute(append('c'));
+        });
+
+        expect(text).toBe('ac');
+        await history.undo();
+        expect(text).toBe('');
+    });
+
+    test('should reject undo while a transaction is in progress', async () => {
+        await history.beginTransaction();
+        await expect(history.undo()).rejects.toThrow('Cannot undo while a transaction is in progress');
+        await history.commit();
+        await expect(history.commit()).rejects.toThrow('No transaction in progress');
+    });
+
+    test('should run async commands one at a time', async () => {
+        const events: string[] = [];
+        const slow = (name: string): UndoCommand => ({
+            do: async (): Promise<void> => {
+                events.push(`start ${name}`);
+                await new Promise(resolve => setTimeout(resolve, 10));
+                events.push(`end ${name}`);
+            },
+            undo: async (): Promise<void> => {
+                events.push(`undo ${name}`);
+            },
+        });
+
+        await Promise.all([history.execute(slow('a')), history.execute(slow('b')), history.undo()]);
+
+        expect(events).toEqual(['start a', 'end a', 'start b', 'end b', 'undo b']);
+    });
+
+    test('should keep the entry when its undo fails', async () => {
+        await history.execute({
+            do: (): void => undefined,
+            undo: (): void => {
+                throw new Error('Undo failed');
+            },
+        });
+
+        await expect(history.undo()).rejects.toThrow('Undo failed');
+        expect(history.canUndo()).toBe(true);
+        expect(history.canRedo()).toBe(false);
+    });
+});
@@ -0,0 +1,84 @@
+export interface Collection<T> extends Iterable<T>, AsyncIterable<T> {
+    size(): number;
+    isEmpty(): boolean;
+    toArray(): T[];
+    forEachSync(callback: (item: T, index: number) => void): void;
+    map<U>(callback: (item: T, index: number) => U): Collection<U>;
+    filter(predicate: (item: T, index: number) => boolean): Collection<T>;
+    reduce<U>(callback: (accumulator: U, item: T, index: number) => U, initialValue: U): U;
+    some(predicate: (item: T, index: number) => boolean): boolean;
+    every(predicate: (item: T, index: number) => boolean): boolean;
+    find(predicate: (item: T, index: number) => boolean): T | undefined;
+    includes(item: T): boolean;
+}
+
+// Traversal shared by every structure, built on its iteration order. Indexes count from the first item
+// yielded by the iterator. Subclasses provide the iterator and return their own type from map and filter.
+export abstract class BaseCollection<T> implements Collection<T> {
+    public abstract [Symbol.iterator](): Iterator<T>;
+
+    public abstract size(): number;
+
+    public abstract map<U>(callback: (item: T, index: number) => U): Collection<U>;
+
+    public abstract filter(predicate: (item: T, index: number) => boolean): Collection<T>;
+
+    public isEmpty(): boolean {
+        return this.size() === 0;
+    }
+
+    public async *[Symbol.asyncIterator](): AsyncIterator<T> {
+        for (const item of this) {
+            yield item;
+        }
+    }
+
+    public toArray(): T[] {
+        return Array.from(this);
+    }
+
+    public forEachSync(callback: (item: T, index: number) => void): void {
+        let index = 0;
+        for (const item of this) {
+            callback(item, index++);
+        }
+    }
+
+    public reduce<U>(callback: (accumulator: U, item: T, index: number) => U, initialValue: U): U {
+        let accumulator = initialValue;
+        this.forEachSync((item, index) => {
+            accumulator = callback(accumulator, item, index);
+        });
+        return accumulator;
+    }
+
+    public some(predicate: (item: T, index: number) => boolean): boolean {
+        return this.findIndex(predicate) !== -1;
+    }
+
+    public every(predicate: (item: T, index: number) => boolean): boolean {
+        return this.findIndex((item, index) => !predicate(item, index)) === -1;
+    }
+
+    public find(predicate: (item: T, index: number) => boolean): T | undefined {
+        let index = 0;
+        for (const item of this) {
+            if (predicate(item, index++)) return item;
+        }
+        return undefined;
+    }
+
+    // Uses SameValueZero like Array.prototype.includes, so NaN is found.
+    public includes(value: T): boolean {
+        return this.findIndex(item => item === value || (item !== item && value !== value)) !== -1;
+    }
+
+    protected findIndex(predicate: (item: T, index: number) => boolean): number {
+        let index = 0;
+        for (const item of this) {
+            if (predicate(item, index)) return index;
+            index++;
+        }
+        return -1;
+    }
+}
@@ -0,0 +1,154 @@
+// Turns values JSON can't represent into tagged { $codec, value } objects and back.
+export interface ValueCodec<V = unknown> {
+    tag: string;
+    test(value: unknown): value is V;
+    // Nested values go through the callbacks so they are encoded with the same codecs.
+    encode(value: V, encodeNested: (value: unknown) => unknown): unknown;
+    decode(data: unknown, decodeNested: (data: unknown) => unknown): V;
+}
+
+export interface SerializeOptions {
+    // Checked before the built-in codecs, so they can also replace them.
+    codecs?: ValueCodec[];
+}
+
+export interface SerializedCollection {
+    type: string;
+    items: unknown[];
+    capacity?: number;
+}
+
+export interface ClassCodecOptions<V> {
+    tag?: string;
+    encode?(value: V): unknown;
+    decode?(data: unknown): V;
+}
+
+const CODEC_KEY = '$codec';
+// Wraps plain objects that have their own $codec key, so they aren't mistaken for encoded values.
+const ESCAPED_OBJECT = 'Object';
+
+export const dateCodec: ValueCodec<Date> = {
+    tag: 'Date',
+    test: (value): value is Date => value instanceof Date,
+    encode: (value): string | null => isNaN(value.getTime()) ? null : value.toISOString(),
+    decode: (data): Date => new Date(data === null ? NaN : data as string),
+};
+
+export const bigIntCodec: ValueCodec<bigint> = {
+    tag: 'BigInt',
+    test: (value): value is bigint => typeof value === 'bigint',
+    encode: (value): string => value.toString(),
+    decode: (data): bigint => BigInt(data as string),
+};
+
+export const mapCodec: ValueCodec<Map<unknown, unknown>> = {
+    tag: 'Map',
+    test: (value): value is Map<unknown, unknown> => value instanceof Map,
+    encode: (value, encodeNested): unknown[] => [...value].map(([key, entry]) => [encodeNested(key), encodeNested(entry)]),
+    decode: (data, decodeNested): Map<unknown, unknown> =>
+        new Map((data as [unknown, unknown][]).map(([key, entry]) => [decodeNested(key), decodeNested(entry)])),
+};
+
+export const setCodec: ValueCodec<Set<unknown>> = {
+    tag: 'Set',
+    test: (value): value is Set<unknown> => value instanceof Set,
+    encode: (value, encodeNested): unknown[] => [...value].map(encodeNested),
+    decode: (data, decodeNested): Set<unknown> => new Set((data as unknown[]).map(decodeNested)),
+};
+
+export const defaultCodecs: ValueCodec[] = [dateCodec, bigIntCodec, mapCodec, setCodec];
+
+// By default an instance is stored as its own enumerable properties and rebuilt on the class prototype
+// without calling the constructor.
+export function classCodec<V extends object>(type: new (...args: never[]) => V, options?: ClassCodecOptions<V>): ValueCodec<V> {
+    return {
+        tag: options?.tag ?? type.name,
+        test: (value): value is V => value instanceof type,
+        encode: (value, encodeNested): unknown => options?.encode ? encodeNested(options.encode(value)) : encodeProperties(value, encodeNested),
+        decode: (data, decodeNested): V => {
+            if (options?.decode) return options.decode(decodeNested(data));
+            return Object.assign(Object.create(type.prototype), decodeNested(data));
+        },
+    };
+}
+
+export function encodeValue(value: unknown, options?: SerializeOptions): unknown {
+    return encodeWith(value, codecsFor(options));
+}
+
+export function decodeValue(data: unknown, options?: SerializeOptions): unknown {
+    return decodeWith(data, codecsFor(options));
+}
+
+export function serializeItems(items: Iterable<unknown>, options?: SerializeOptions): unknown[] {
+    const codecs = codecsFor(options);
+    return Array.from(items, item => encodeWith(item, codecs));
+}
+
+export function deserializeItems<T>(items: unknown[], options?: SerializeOptions): T[] {
+    const codecs = codecsFor(options);
+    return items.map(item => decodeWith(item, codecs) as T);
+}
+
+// Accepts the object returned by toJSON or the JSON text it was written to.
+export function readSerialized<S extends { type: string }>(data: S | string, type: S['type']): S {
+    const parsed = typeof data === 'string' ? JSON.parse(data) : data;
+    if (!parsed || parsed.type !== type) {
+        throw new Error(`Expected a serialized ${type}`);
+    }
+    return parsed;
+}
+
+// JSON.stringify calls toJSON with the property key, so anything that isn't an options object is ignored.
+function codecsFor(options?: SerializeOptions): ValueCodec[] {
+    const custom = typeof options === 'object' ? options?.codecs ?? [] : [];
+    return [...custom, ...defaultCodecs];
+}
+
+function encodeWith(value: unknown, codecs: ValueCodec[]): unknown {
+    const codec = codecs.find(candidate => candidate.test(value));
+    if (codec) {
+        return { [CODEC_KEY]: codec.tag, value: codec.encode(value, nested => encodeWith(nested, codecs)) };
+    }
+    if (Array.isArray(value)) return value.map(item => encodeWith(item, codecs));
+    if (value === null || typeof value !== 'object') return value;
+
+    const toJSON = (value as { toJSON?: () => unknown }).toJSON;
+    if (typeof toJSON === 'function') return toJSON.call(value);
+
+    const encoded = encodeProperties(value, nested => encodeWith(nested, codecs));
+    return CODEC_KEY in value ? { [CODEC_KEY]: ESCAPED_OBJECT, value: encoded } : encoded;
+}
+
+function decodeWith(data: unknown, codecs: ValueCodec[]): unknown {
+    if (Array.isArray(data)) return data.map(item => decodeWith(item, codecs));
+    if (data === null || typeof data !== 'object') return data;
+
+    const record = data as Record<string, unknown>;
+    const tag = record[CODEC_KEY];
+    if (typeof tag !== 'string') return decodeProperties(record, codecs);
+    if (tag === ESCAPED_OBJECT) return decodeProperties(record.value as Record<string, unknown>, codecs);
+
+    const codec = codecs.find(candidate => candidate.tag === tag);
+    if (!codec) {
+        throw new Error(`No codec registered for "${tag}"`);
+    }
+    return codec.decode(record.value, nested => decodeWith(nested, codecs));
+}
+
+function encodeProperties(value: object, encodeNested: (value: unknown) => unknown): Record<string, unknown> {
+    const encoded: Record<string, unknown> = {};
+    for (const [key, entry] of Object.entries(value)) {
+        encoded[key] = encodeNested(entry);
+    }
+    return encoded;
+}
+
+function decodeProperties(record: Record<string, unknown>, codecs: ValueCodec[]): Record<string, unknown> {
+    const decoded: Record<string, unknown> = {};
+    for (const [key, entry] of Object.entries(record)) {
+        decoded[key] = decodeWith(entry, codecs);
+    }
+    return decoded;
+}
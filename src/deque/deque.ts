@@ -0,0 +1,104 @@
+import { BaseCollection } from '../collection/collection';
+import { deserializeItems, readSerialized, SerializedCollection, SerializeOptions, serializeItems } from '../collection/serialization';
+import { RingBuffer } from '../queue/ringBuffer';
+
+export interface DequeOptions {
+    capacity?: number;
+}
+
+export interface SerializedDeque extends SerializedCollection {
+    type: 'Deque';
+}
+
+// A full deque evicts from the opposite end: pushBack drops the front item and pushFront drops the back item.
+export class Deque<T> extends BaseCollection<T> {
+    private items = new RingBuffer<T>();
+    private readonly capacity: number;
+
+    constructor(options?: DequeOptions) {
+        super();
+        this.capacity = options?.capacity ?? Infinity;
+        if (this.capacity < 1) {
+            throw new Error('Capacity must be at least 1');
+        }
+    }
+
+    public static from<T>(iterable: Iterable<T>, options?: DequeOptions): Deque<T> {
+        const deque = new Deque<T>(options);
+        for (const item of iterable) {
+            deque.pushBack(item);
+        }
+        return deque;
+    }
+
+    public pushBack(item: T): void {
+        if (this.isFull()) this.items.shift();
+        this.items.push(item);
+    }
+
+    public pushFront(item: T): void {
+        if (this.isFull()) this.items.pop();
+        this.items.unshift(item);
+    }
+
+    public popBack(): T | undefined {
+        return this.items.pop();
+    }
+
+    public popFront(): T | undefined {
+        return this.items.shift();
+    }
+
+    public peekBack(): T | undefined {
+        return this.items.at(this.items.size() - 1);
+    }
+
+    public peekFront(): T | undefined {
+        return this.items.peek();
+    }
+
+    // Negative indexes count back from the end, like Array.prototype.at.
+    public at(index: number): T | undefined {
+        return this.items.at(index < 0 ? this.items.size() + index : index);
+    }
+
+    public size(): number {
+        return this.items.size();
+    }
+
+    public isEmpty(): boolean {
+        return this.items.isEmpty();
+    }
+
+    public isFull(): boolean {
+        return this.items.size() >= this.capacity;
+    }
+
+    public clear(): void {
+        this.items.clear();
+    }
+
+    // Items are stored from front to back.
+    public toJSON(options?: SerializeOptions): SerializedDeque {
+        const serialized: SerializedDeque = { type: 'Deque', items: serializeItems(this, options) };
+        if (this.capacity !== Infinity) serialized.capacity = this.capacity;
+        return serialized;
+    }
+
+    public static fromJSON<T>(data: SerializedDeque | string, options?: SerializeOptions): Deque<T> {
+        const serialized = readSerialized(data, 'Deque');
+        return Deque.from(deserializeItems<T>(serialized.items, options), { capacity: serialized.capacity });
+    }
+
+    public *[Symbol.iterator](): Iterator<T> {
+        yield* this.items;
+    }
+
+    public map<U>(callback: (item: T, index: number) => U): Deque<U> {
+        return Deque.from(Array.from(this, callback), { capacity: this.capacity });
+    }
+
+    public filter(predicate: (item: T, index: number) => boolean): Deque<T> {
+        return Deque.from(this.toArray().filter(predicate), { capacity: this.capacity });
+    }
+}
@@ -1,4 +1,17 @@
 export * from './queue/asyncQueue';
+export { RateLimitOptions } from './queue/rateLimiter';
+export { BackoffOptions } from './queue/retryStrategy';
+export { DeadLetterEntry, DeadLetterOptions } from './queue/deadLetterQueue';
+export * from './queue/queueStorage';
+export { LatencyStats } from './queue/metrics';
+export { BatchConsumer, BatchItemResult, BatchOptions } from './queue/batcher';
+export { WorkerPoolOptions } from './queue/workerPool';
+export { CircuitBreakerOptions, CircuitState } from './queue/circuitBreaker';
+export * from './queue/clock';
 export * from './queue/queue';
 export * from './lists/linkedList';
-export * from './stack/stack';
\ No newline at end of file
+export * from './stack/stack';
+export * from './stack/undoManager';
+export * from './deque/deque';
+export * from './collection/collection';
+export * from './collection/serialization';
@@ -1,19 +1,35 @@
+import { BaseCollection } from '../collection/collection';
+import { deserializeItems, readSerialized, SerializedCollection, SerializeOptions, serializeItems } from '../collection/serialization';
+
 export interface LinkedListNode<T> {
     value: T;
     next: LinkedListNode<T> | null;
 }
 
-export class LinkedList<T> {
+export interface SerializedLinkedList extends SerializedCollection {
+    type: 'LinkedList';
+}
+
+export class LinkedList<T> extends BaseCollection<T> {
     private head: LinkedListNode<T> | null = null;
     private tail: LinkedListNode<T> | null = null;
     private length: number = 0;
 
     constructor() {
+        super();
         this.head = null;
         this.tail = null;
         this.length = 0;
     }
 
+    public static from<T>(iterable: Iterable<T>): LinkedList<T> {
+        const list = new LinkedList<T>();
+        for (const value of iterable) {
+            list.append(value);
+        }
+        return list;
+    }
+
     public append(value: T): void {
         const newNode: LinkedListNode<T> = {
             value,
@@ -32,6 +48,102 @@ export class LinkedList<T> {
         this.length++;
     }
 
+    public prepend(value: T): void {
+        this.insertAfter(null, value);
+    }
+
+    public insertAt(index: number, value: T): void {
+        if (index < 0 || index > this.length) {
+            throw new RangeError(`Index ${index} is out of bounds`);
+        }
+        this.insertAfter(index === 0 ? null : this.nodeAt(index - 1), value);
+    }
+
+    public get(index: number): T | undefined {
+        return this.nodeAt(index)?.value;
+    }
+
+    public indexOf(value: T): number {
+        return this.findIndex(candidate => candidate === value);
+    }
+
+    public contains(value: T): boolean {
+        return this.includes(value);
+    }
+
+    public removeFirst(): T | undefined {
+        return this.removeAt(0);
+    }
+
+    public removeLast(): T | undefined {
+        return this.removeAt(this.length - 1);
+    }
+
+    public removeAt(index: number): T | undefined {
+        if (index < 0 || index >= this.length) return undefined;
+        return this.removeAfter(index === 0 ? null : this.nodeAt(index - 1));
+    }
+
+    // Removes the first value accepted by the predicate and returns it.
+    public remove(predicate: (value: T, index: number) => boolean): T | undefined {
+        let previous: LinkedListNode<T> | null = null;
+        let current = this.head;
+        let index = 0;
+
+        while (current) {
+            if (predicate(current.value, index)) return this.removeAfter(previous);
+            previous = current;
+            current = current.next;
+            index++;
+        }
+        return undefined;
+    }
+
+    public reverse(): void {
+        let previous: LinkedListNode<T> | null = null;
+        let current = this.head;
+        this.tail = current;
+
+        while (current) {
+            const next: LinkedListNode<T> | null = current.next;
+            current.next = previous;
+            previous = current;
+            current = next;
+        }
+        this.head = previous;
+    }
+
+    // Same arguments as Array.prototype.splice: negative starts count back from the tail, a missing
+    // deleteCount removes everything after start, and the removed values are returned.
+    public splice(start: number, deleteCount: number = Infinity, ...values: T[]): T[] {
+        const from = this.clampIndex(start);
+        const count = Math.min(Math.max(deleteCount, 0), this.length - from);
+        let previous = from === 0 ? null : this.nodeAt(from - 1);
+
+        const removed: T[] = [];
+        for (let i = 0; i < count; i++) {
+            removed.push(this.removeAfter(previous));
+        }
+        for (const value of values) {
+            previous = this.insertAfter(previous, value);
+        }
+        return removed;
+    }
+
+    // Copies the values from start up to, but not including, end into a new list, like Array.prototype.slice.
+    public slice(start: number = 0, end: number = this.length): LinkedList<T> {
+        const list = new LinkedList<T>();
+        const from = this.clampIndex(start);
+        const to = this.clampIndex(end);
+        let current = this.nodeAt(from);
+
+        for (let i = from; i < to && current; i++) {
+            list.append(current.value);
+            current = current.next;
+        }
+        return list;
+    }
+
     public size(): number {
         return this.length;
     }
@@ -40,6 +152,26 @@ export class LinkedList<T> {
         return this.length === 0;
     }
 
+    public *[Symbol.iterator](): Iterator<T> {
+        let current = this.head;
+        while (current) {
+            yield current.value;
+            current = current.next;
+        }
+    }
+
+    public map<U>(callback: (value: T, index: number) => U): LinkedList<U> {
+        return LinkedList.from(Array.from(this, callback));
+    }
+
+    public filter(predicate: (value: T, index: number) => boolean): LinkedList<T> {
+        const list = new LinkedList<T>();
+        this.forEachSync((value, index) => {
+            if (predicate(value, index)) list.append(value);
+        });
+        return list;
+    }
+
     public async forEach(
         callback: (node: LinkedListNode<T>, index: number) => Promise<void>,
         errorCallback?: (node: LinkedListNode<T>, index: number, error: Error) => Promise<void>
@@ -71,10 +203,68 @@ export class LinkedList<T> {
         return result;
     }
 
+    // Values are stored from head to tail.
+    public toJSON(options?: SerializeOptions): SerializedLinkedList {
+        return { type: 'LinkedList', items: serializeItems(this, options) };
+    }
+
+    public static fromJSON<T>(data: SerializedLinkedList | string, options?: SerializeOptions): LinkedList<T> {
+        return LinkedList.from(deserializeItems<T>(readSerialized(data, 'LinkedList').items, options));
+    }
+
     public clear(): void {
         this.head = null;
         this.tail = null;
         this.length = 0;
     }
-    
+
+    // The tail is kept separately, so reaching the last node is O(1).
+    private nodeAt(index: number): LinkedListNode<T> | null {
+        if (index < 0 || index >= this.length) return null;
+        if (index === this.length - 1) return this.tail;
+
+        let current = this.head;
+        for (let i = 0; i < index; i++) {
+            current = current!.next;
+        }
+        return current;
+    }
+
+    // A null previous node stands for the position before the head.
+    private insertAfter(previous: LinkedListNode<T> | null, value: T): LinkedListNode<T> {
+        const newNode: LinkedListNode<T> = {
+            value,
+            next: previous ? previous.next : this.head,
+        };
+
+        if (previous) {
+            previous.next = newNode;
+        } else {
+            this.head = newNode;
+        }
+        if (this.tail === previous) {
+            this.tail = newNode;
+        }
+        this.length++;
+        return newNode;
+    }
+
+    private removeAfter(previous: LinkedListNode<T> | null): T {
+        const node = previous ? previous.next! : this.head!;
+
+        if (previous) {
+            previous.next = node.next;
+        } else {
+            this.head = node.next;
+        }
+        if (this.tail === node) {
+            this.tail = previous;
+        }
+        this.length--;
+        return node.value;
+    }
+
+    private clampIndex(index: number): number {
+        return index < 0 ? Math.max(this.length + index, 0) : Math.min(index, this.length);
+    }
 }
\ No newline at end of file
@@ -1,22 +1,139 @@
-type QueueResultError = 'maxConcurrent' | 'maxQueueSize' | 'error' | 'timeout';
+import { randomUUID } from 'crypto';
+import * as path from 'path';
+import { decodeValue, encodeValue, readSerialized, SerializeOptions } from '../collection/serialization';
+import { BatchConsumer, Batcher, BatchOptions } from './batcher';
+import { CircuitBreaker, CircuitBreakerOptions, CircuitState } from './circuitBreaker';
+import { Clock, ClockTimer, systemClock } from './clock';
+import { nextCronTime, parseCron } from './cron';
+import { DeadLetterEntry, DeadLetterOptions, DeadLetterQueue } from './deadLetterQueue';
+import { Histogram, LatencyStats, prometheusMetric } from './metrics';
+import { PriorityLanes } from './priorityLanes';
+import { PriorityStore } from './priorityStore';
+import { QueueJournalEntry, QueueStorage } from './queueStorage';
+import { RateLimiter, RateLimitOptions } from './rateLimiter';
+import { BackoffOptions, computeRetryDelay } from './retryStrategy';
+import { EventListener, TypedEmitter } from './typedEmitter';
+import { WorkerPool, WorkerPoolOptions } from './workerPool';
+
+type QueueResultError = 'maxQueueSize' | 'error' | 'timeout' | 'cancelled' | 'shutdown' | 'duplicate' | 'skipped' | 'circuitOpen';
 
 export interface QueueElement<T> {
+    id?: string;
     item: T;
+    priority?: number;
+    key?: string;
+    maxRetries?: number;
+    timeout?: number;
+    attempts?: number;
+    enqueuedAt?: number;
+    runAt?: number;
+    dependsOn?: string[];
     error?: QueueElementError;
 }
 
 export interface QueueElementError {
     errorType: QueueResultError;
     errorMessage: string;
+    attempts?: QueueAttempt[];
+}
+
+export interface QueueAttempt {
+    attempt: number;
+    errorType: QueueResultError;
+    errorMessage: string;
+    startedAt: number;
+    duration: number;
 }
 
-export interface AsyncQueueOptions {
+export type OverflowPolicy = 'reject' | 'drop-newest' | 'drop-oldest' | 'block';
+
+export interface AsyncQueueOptions<T = unknown> {
     maxConcurrent?: number;
     maxQueueSize?: number;
     maxRetries?: number;
     retryDelay?: number;
     autoStart?: boolean;
+    persistent?: boolean;
+    overflow?: OverflowPolicy;
+    keyFn?: (item: T) => string | undefined;
+    keyConcurrency?: number;
+    dependencyFailure?: DependencyFailurePolicy;
+    outcomeTtlMs?: number;
+    deduplication?: DeduplicationOptions<T>;
+    timeout?: number;
+    rateLimit?: RateLimitOptions;
+    circuitBreaker?: CircuitBreakerOptions;
+    clock?: Clock;
+    backoff?: BackoffOptions;
+    shouldRetry?: (error: Error, attempt: number) => boolean;
+    deadLetter?: boolean | DeadLetterOptions;
+    storage?: QueueStorage<T>;
+}
+
+export type DependencyFailurePolicy = 'cancel' | 'skip';
+
+export type JobOutcome = 'succeeded' | 'failed' | 'cancelled' | 'skipped';
+
+export interface DeduplicationOptions<T> {
+    merge?: (existing: T, incoming: T) => T;
+    ttlMs?: number;
+}
+
+export interface EnqueueOptions {
+    id?: string;
+    priority?: number;
+    key?: string;
+    maxRetries?: number;
     timeout?: number;
+    delayMs?: number;
+    runAt?: Date | number;
+    dependsOn?: string[];
+}
+
+export interface ScheduleOptions extends Omit<EnqueueOptions, 'delayMs' | 'runAt'> {
+    everyMs?: number;
+    cron?: string;
+}
+
+export interface ScheduledJob {
+    nextRunAt(): number | undefined;
+    cancel(): boolean;
+}
+
+export interface EnqueueAsyncOptions extends EnqueueOptions {
+    timeoutMs?: number;
+    signal?: AbortSignal;
+}
+
+export interface ShutdownOptions {
+    graceful?: boolean;
+    timeoutMs?: number;
+}
+
+export interface QueueEventPayload<T> {
+    item: T;
+    element: QueueElement<T>;
+    attempt: number;
+    duration: number;
+}
+
+export interface QueueJobHandle<T, R> {
+    item: T;
+    promise: Promise<R>;
+    duplicate: boolean;
+    cancel(): boolean;
+}
+
+export interface AsyncQueueEvents<T, R = void> {
+    started: QueueEventPayload<T>;
+    success: QueueEventPayload<T> & { result: R };
+    error: QueueEventPayload<T> & { error: QueueElementError };
+    retry: QueueEventPayload<T> & { error: Error; delay: number };
+    timeout: QueueEventPayload<T> & { timeout: number };
+    dropped: QueueEventPayload<T> & { error: QueueElementError };
+    end: { duration: number };
+    idle: { duration: number };
+    circuit: { state: CircuitState; previous: CircuitState };
 }
 
 export interface AsyncQueueStats {
@@ -25,169 +142,1219 @@ export interface AsyncQueueStats {
     failedItems: number;
     successRate: number;
     errorRate: number;
+    queued: number;
+    delayed: number;
+    waiting: number;
+    inFlight: number;
+    retries: number;
+    droppedItems: number;
+    clearedItems: number;
+    dedupedItems: number;
+    processingTime: LatencyStats;
+    waitTime: LatencyStats;
+    throttled: boolean;
+    nextSlotAt: number | null;
+    circuit: CircuitState | null;
+    circuitNextAttemptAt: number | null;
+}
+
+export type SnapshotJobState = 'active' | 'queued' | 'delayed' | 'waiting';
+
+export interface SerializedQueueJob {
+    state: SnapshotJobState;
+    element: QueueElement<unknown>;
+}
+
+export interface AsyncQueueSnapshot {
+    type: 'AsyncQueue';
+    takenAt: number;
+    pending: SerializedQueueJob[];
+    stats: AsyncQueueStats;
+}
+
+interface QueueCounters {
+    totalItems: number;
+    processedItems: number;
+    failedItems: number;
+    retries: number;
+    droppedItems: number;
+    clearedItems: number;
+    dedupedItems: number;
+}
+
+interface ActiveJob<T> {
+    element: QueueElement<T>;
+    controller: AbortController;
+    startedAt: number;
+    attempt: number;
+    attempts: QueueAttempt[];
+}
+
+interface BlockedProducer<T> {
+    element: QueueElement<T>;
+    admit: () => void;
+    reject: (error: QueueElementError) => void;
+}
+
+interface RecurringJob {
+    runAt: number;
+    timer?: ClockTimer;
+}
+
+interface Deferred<R> {
+    promise: Promise<R>;
+    resolve: (result: R) => void;
+    reject: (error: QueueElementError) => void;
+}
+
+// setTimeout overflows beyond this delay, so longer waits are split into several timers.
+const MAX_TIMER_DELAY = 2 ** 31 - 1;
+
+class TimeoutError extends Error {
+    constructor() {
+        super('Timeout');
+        this.name = 'TimeoutError';
+    }
 }
 
-export class AsyncQueue<T> {
-    private items: QueueElement<T>[] = [];
-    private readonly options: Required<AsyncQueueOptions>;
-    private stats: AsyncQueueStats = {
-        totalItems: 0,
-        processedItems: 0,
-        failedItems: 0,
-        successRate: 0,
-        errorRate: 0,
-    };
-    private consumer?: (item: T) => Promise<void>;
+class CircuitOpenError extends Error {
+    constructor() {
+        super('Circuit is open');
+        this.name = 'CircuitOpenError';
+    }
+}
+
+type LegacyHandlers<T, R> = {
+    [K in 'started' | 'success' | 'error' | 'end']?: EventListener<AsyncQueueEvents<T, R>[K]>;
+};
+
+export class AsyncQueue<T, R = void> {
+    private items = new PriorityLanes<QueueElement<T>>();
+    // Items that are not due yet, ordered by their run time.
+    private delayed = new PriorityStore<QueueElement<T>>();
+    private delayTimer?: ClockTimer;
+    private readonly recurring = new Set<RecurringJob>();
+    private readonly options: Required<Omit<AsyncQueueOptions<T>, 'rateLimit' | 'deadLetter' | 'storage' | 'keyFn' | 'deduplication' | 'circuitBreaker' | 'clock'>>;
+    private readonly clock: Clock;
+    private readonly deduplication: DeduplicationOptions<T>;
+    private readonly byId = new Map<string, QueueElement<T>>();
+    private readonly completedIds = new Map<string, number>();
+    // Items whose dependencies have not all succeeded yet, with the ids they still wait for.
+    private readonly waiting = new Map<QueueElement<T>, Set<string>>();
+    private readonly dependents = new Map<string, Set<QueueElement<T>>>();
+    // Outcomes of finished ids in completion order, kept for outcomeTtlMs for items enqueued later.
+    private readonly outcomes = new Map<string, { outcome: JobOutcome; expiresAt: number }>();
+    private readonly outcomeWaiters = new Map<string, ((outcome: JobOutcome) => void)[]>();
+    private readonly generatedIds = new WeakSet<QueueElement<T>>();
+    private readonly keyFn?: (item: T) => string | undefined;
+    private readonly activeKeys = new Map<string, number>();
+    private rateLimiter?: RateLimiter;
+    private readonly circuitBreaker?: CircuitBreaker;
+    private readonly rejectWhenOpen: boolean = false;
+    private readonly deadLetters?: DeadLetterQueue<T>;
+    private readonly storage?: QueueStorage<T>;
+    private stats: QueueCounters = AsyncQueue.emptyCounters();
+    private readonly processingTime = new Histogram();
+    private readonly waitTime = new Histogram();
+    private consumer?: (item: T, signal: AbortSignal) => Promise<R>;
+    private workerPool?: WorkerPool<T, R>;
+    private batchSize = 1;
     private isRunning = false;
+    private paused = false;
+    private shuttingDown = false;
+    private running?: Promise<void>;
+    private readonly active = new Map<QueueElement<T>, ActiveJob<T>>();
+    private resumeWaiters: (() => void)[] = [];
+    private workWaiters: (() => void)[] = [];
+    private blocked: BlockedProducer<T>[] = [];
+    private source?: { iterator: AsyncIterator<T>; options?: EnqueueOptions };
+    private pulling?: Promise<void>;
+    private sourceError?: unknown;
+    private idleWaiters: { resolve: () => void; reject: (error: unknown) => void }[] = [];
+    private idleError?: unknown;
+    private runInBackground = false;
+    private idle = true;
+    private busySince = 0;
 
-    private readonly handlers: {
-        started: (item: T) => void;
-        success: (item: T) => void;
-        error: (element: QueueElement<T>) => void;
-        end: () => void;
-    } = {
-            started: () => { },
-            success: () => { },
-            error: () => { },
-            end: () => { },
-        };
+    private readonly results = new Map<QueueElement<T>, Deferred<R>>();
+    private readonly events = new TypedEmitter<AsyncQueueEvents<T, R>>();
+    private readonly legacyHandlers: LegacyHandlers<T, R> = {};
 
-    constructor(options?: AsyncQueueOptions) {
+    constructor(options?: AsyncQueueOptions<T>) {
         this.options = {
             maxConcurrent: options?.maxConcurrent ?? 1,
             maxQueueSize: options?.maxQueueSize ?? 1000,
             maxRetries: options?.maxRetries ?? 0,
             retryDelay: options?.retryDelay ?? 1000,
             autoStart: options?.autoStart ?? false,
+            persistent: options?.persistent ?? false,
+            overflow: options?.overflow ?? 'reject',
+            keyConcurrency: options?.keyConcurrency ?? 1,
+            dependencyFailure: options?.dependencyFailure ?? 'cancel',
+            outcomeTtlMs: options?.outcomeTtlMs ?? 60000,
             timeout: options?.timeout ?? 10000,
+            backoff: options?.backoff ?? { type: 'fixed' },
+            shouldRetry: options?.shouldRetry ?? ((): boolean => true),
         };
+
+        this.clock = options?.clock ?? systemClock;
+        this.keyFn = options?.keyFn;
+        this.deduplication = options?.deduplication ?? {};
+
+        if (options?.circuitBreaker) {
+            this.circuitBreaker = new CircuitBreaker(options.circuitBreaker, (state, previous) => {
+                this.events.emit('circuit', { state, previous });
+                this.wakeWorkers();
+            }, () => this.clock.now());
+            this.rejectWhenOpen = options.circuitBreaker.whenOpen === 'reject';
+        }
+
+        if (options?.rateLimit) {
+            this.rateLimiter = new RateLimiter(options.rateLimit, () => this.clock.now());
+        }
+
+        if (options?.deadLetter) {
+            this.deadLetters = new DeadLetterQueue(options.deadLetter === true ? undefined : options.deadLetter);
+        }
+
+        if (options?.storage) {
+            this.storage = options.storage;
+            this.restore();
+        }
     }
 
-    public enqueue(item: T): void {
-        if (this.isQueueFull()) {
-            this.handlers.error({
-                item,
-                error: {
-                    errorType: 'maxQueueSize',
-                    errorMessage: 'Queue is full',
+    private restore(): void {
+        this.restoreElements(this.storage!.load().map(job => ({ ...job.element, id: job.id, attempts: job.attempts })));
+    }
+
+    // Every id is registered before staging, so dependencies between restored elements keep them waiting.
+    private restoreElements(elements: QueueElement<T>[]): void {
+        elements.forEach(element => {
+            if (element.id !== undefined) this.byId.set(element.id, element);
+        });
+
+        elements.forEach(element => {
+            this.stage(element, true);
+            this.stats.totalItems++;
+            this.markBusy();
+        });
+    }
+
+    public enqueue(item: T, options?: EnqueueOptions): QueueJobHandle<T, R> {
+        const duplicate = this.deduplicate(item, options?.id);
+        if (duplicate) return duplicate;
+
+        const element = this.createElement(item, options);
+        this.assertAcyclic(element);
+        const handle = this.createHandle(element);
+
+        if (this.options.overflow === 'block' && this.mustWaitForSpace()) {
+            this.waitForSpace(element).catch(() => { });
+        } else {
+            this.insert(element);
+        }
+        return handle;
+    }
+
+    public async enqueueAsync(item: T, options?: EnqueueAsyncOptions): Promise<QueueJobHandle<T, R>> {
+        const duplicate = this.deduplicate(item, options?.id);
+        if (duplicate) return duplicate;
+
+        const element = this.createElement(item, options);
+        this.assertAcyclic(element);
+        const handle = this.createHandle(element);
+
+        if (this.mustWaitForSpace()) {
+            await this.waitForSpace(element, options?.timeoutMs, options?.signal);
+        } else {
+            this.insert(element);
+        }
+        return handle;
+    }
+
+    private createHandle(element: QueueElement<T>, duplicate: boolean = false): QueueJobHandle<T, R> {
+        let deferred = this.results.get(element);
+        if (!deferred) {
+            let resolve!: (result: R) => void;
+            let reject!: (error: QueueElementError) => void;
+            const promise = new Promise<R>((res, rej) => {
+                resolve = res;
+                reject = rej;
+            });
+            // Fire-and-forget callers never look at the promise, so its rejection must not surface as unhandled.
+            promise.catch(() => { });
+            deferred = { promise, resolve, reject };
+            this.results.set(element, deferred);
+        }
+
+        return {
+            item: element.item,
+            promise: deferred.promise,
+            duplicate,
+            cancel: (): boolean => this.cancel(element),
+        };
+    }
+
+    // Returns a handle when the id is already pending, running or recently completed, so the new item is not added.
+    private deduplicate(item: T, id?: string): QueueJobHandle<T, R> | undefined {
+        if (id === undefined) return undefined;
+
+        // Producers parked by the block overflow policy are not in byId until they are admitted.
+        const parked = this.blocked.find(producer => producer.element.id === id)?.element;
+        const existing = this.byId.get(id) ?? parked;
+        if (existing) {
+            this.stats.dedupedItems++;
+            const merge = this.deduplication.merge;
+            if (merge && !this.active.has(existing)) {
+                existing.item = merge(existing.item, item);
+                // A parked item is journaled with its merged value once it is admitted.
+                if (existing !== parked) this.journal({ type: 'enqueue', id, element: { ...existing } });
+            }
+            return this.createHandle(existing, true);
+        }
+
+        if (this.wasRecentlyCompleted(id)) {
+            this.stats.dedupedItems++;
+            const promise = Promise.reject<R>({ errorType: 'duplicate', errorMessage: 'Item was already processed' });
+            promise.catch(() => { });
+            return { item, promise, duplicate: true, cancel: (): boolean => false };
+        }
+        return undefined;
+    }
+
+    private wasRecentlyCompleted(id: string): boolean {
+        const now = this.clock.now();
+        // Entries are kept in completion order, so expired ones are always at the front.
+        for (const [completedId, expiresAt] of this.completedIds) {
+            if (expiresAt > now) break;
+            this.completedIds.delete(completedId);
+        }
+        return this.completedIds.has(id);
+    }
+
+    private rememberCompleted(element: QueueElement<T>): void {
+        const ttlMs = this.deduplication.ttlMs ?? 0;
+        if (element.id === undefined || ttlMs <= 0) return;
+
+        this.completedIds.delete(element.id);
+        this.completedIds.set(element.id, this.clock.now() + ttlMs);
+    }
+
+    private forget(element: QueueElement<T>): void {
+        if (element.id !== undefined && this.byId.get(element.id) === element) {
+            this.byId.delete(element.id);
+        }
+    }
+
+    // Producers already waiting keep their turn, so a newcomer waits even if a slot just opened.
+    private mustWaitForSpace(): boolean {
+        return !this.shuttingDown && (this.isQueueFull() || this.blocked.length > 0);
+    }
+
+    private waitForSpace(element: QueueElement<T>, timeoutMs?: number, signal?: AbortSignal): Promise<void> {
+        return new Promise((resolve, reject) => {
+            let timer: ClockTimer | undefined;
+            const cleanup = (): void => {
+                this.clock.clearTimeout(timer);
+                signal?.removeEventListener('abort', onAbort);
+            };
+            const producer: BlockedProducer<T> = {
+                element,
+                admit: (): void => {
+                    cleanup();
+                    resolve();
+                },
+                reject: (error: QueueElementError): void => {
+                    cleanup();
+                    this.drop(element, error);
+                    reject(error);
                 },
+            };
+            const giveUp = (error: QueueElementError): void => {
+                this.blocked = this.blocked.filter(candidate => candidate !== producer);
+                producer.reject(error);
+            };
+            const onAbort = (): void => giveUp({ errorType: 'cancelled', errorMessage: 'Cancelled' });
+
+            if (signal?.aborted) {
+                producer.reject({ errorType: 'cancelled', errorMessage: 'Cancelled' });
+                return;
+            }
+            if (timeoutMs !== undefined) {
+                timer = this.clock.setTimeout(() => giveUp({
+                    errorType: 'maxQueueSize',
+                    errorMessage: 'Timed out waiting for queue space',
+                }), timeoutMs);
+            }
+            signal?.addEventListener('abort', onAbort, { once: true });
+            this.blocked.push(producer);
+        });
+    }
+
+    private admitBlocked(): void {
+        while (this.blocked.length > 0 && !this.isQueueFull()) {
+            const producer = this.blocked.shift()!;
+            this.insert(producer.element);
+            producer.admit();
+        }
+    }
+
+    private rejectBlocked(error: QueueElementError): void {
+        const blocked = this.blocked;
+        this.blocked = [];
+        blocked.forEach(producer => producer.reject(error));
+    }
+
+    private createElement(item: T, options?: EnqueueOptions): QueueElement<T> {
+        const element: QueueElement<T> = { item, priority: options?.priority ?? 0 };
+        if (options?.id !== undefined) element.id = options.id;
+        const key = options?.key ?? this.keyFn?.(item);
+        if (key !== undefined) element.key = key;
+        if (options?.maxRetries !== undefined) element.maxRetries = options.maxRetries;
+        if (options?.timeout !== undefined) element.timeout = options.timeout;
+        if (options?.runAt !== undefined) {
+            element.runAt = options.runAt instanceof Date ? options.runAt.getTime() : options.runAt;
+        } else if (options?.delayMs !== undefined) {
+            element.runAt = this.clock.now() + options.delayMs;
+        }
+        if (options?.dependsOn?.length) element.dependsOn = [...options.dependsOn];
+        return element;
+    }
+
+    // Items are pulled from the source only when a worker finds the queue empty.
+    public setSource(source: AsyncIterable<T>, options?: EnqueueOptions): void {
+        if (this.shuttingDown) {
+            throw new Error('Queue is shut down');
+        }
+
+        this.source = { iterator: source[Symbol.asyncIterator](), options };
+        this.sourceError = undefined;
+        this.markBusy();
+        this.wakeWorkers();
+
+        if (!this.isRunning && !this.paused && this.options.autoStart) {
+            this.startInBackground();
+        }
+    }
+
+    private pullFromSource(): Promise<void> {
+        if (!this.pulling) {
+            this.pulling = this.pullNext().then(() => {
+                this.pulling = undefined;
             });
-            return;
+        }
+        return this.pulling;
+    }
+
+    private async pullNext(): Promise<void> {
+        const source = this.source!;
+        try {
+            const next = await source.iterator.next();
+            if (next.done) {
+                this.source = undefined;
+                this.notifyIdle();
+            } else {
+                this.insert(this.createElement(next.value, source.options));
+            }
+        } catch (err) {
+            // The run ending on this error settles onIdle(), rejecting it rather than resolving it.
+            this.source = undefined;
+            this.sourceError = err;
+        }
+    }
+
+    private cancel(element: QueueElement<T>): boolean {
+        const error: QueueElementError = { errorType: 'cancelled', errorMessage: 'Cancelled' };
+        const producer = this.blocked.find(candidate => candidate.element === element);
+        if (producer) {
+            this.blocked = this.blocked.filter(candidate => candidate !== producer);
+            producer.reject(error);
+            return true;
+        }
+
+        if (this.waiting.has(element)) {
+            this.waiting.delete(element);
+        } else if (!this.items.remove(candidate => candidate === element)) {
+            if (!this.delayed.remove(candidate => candidate === element)) return false;
+            this.armDelayTimer();
+            this.wakeWorkers();
+        }
+
+        this.forget(element);
+        this.journal({ type: 'fail', id: element.id!, error });
+        this.settle(element, error);
+        this.recordOutcome(element, 'cancelled');
+        this.admitBlocked();
+        this.notifyIdle();
+        return true;
+    }
+
+    private settle(element: QueueElement<T>, outcome: { result: R } | QueueElementError): void {
+        const deferred = this.results.get(element);
+        if (!deferred) return;
+
+        this.results.delete(element);
+        if ('errorType' in outcome) {
+            deferred.reject(outcome);
+        } else {
+            deferred.resolve(outcome.result);
+        }
+    }
+
+    private insert(element: QueueElement<T>): boolean {
+        if (this.shuttingDown) {
+            this.drop(element, {
+                errorType: 'shutdown',
+                errorMessage: 'Queue is shut down',
+            });
+            return false;
         }
 
-        this.items.push({ item });
+        if (this.isQueueFull() && !this.makeRoom(element)) {
+            return false;
+        }
+
+        element.enqueuedAt = this.clock.now();
+        if (this.storage) {
+            if (element.id === undefined) {
+                element.id = randomUUID();
+                this.generatedIds.add(element);
+            }
+            this.storage.append({ type: 'enqueue', id: element.id, element: { ...element } });
+        }
+        if (element.id !== undefined) {
+            this.byId.set(element.id, element);
+        }
+
+        this.stage(element);
         this.stats.totalItems++;
+        this.markBusy();
+        this.wakeWorkers();
+
+        if (!this.isRunning && !this.paused && this.options.autoStart) {
+            this.startInBackground();
+        }
+        return true;
+    }
+
+    // Holds the element back until its dependencies succeed; while restoring, ids missing from the journal
+    // belong to jobs that already finished, so they count as satisfied.
+    private stage(element: QueueElement<T>, restoring: boolean = false): void {
+        const unresolved = new Set<string>();
+        for (const id of element.dependsOn ?? []) {
+            const outcome = this.outcomeFor(id);
+            if (outcome === 'succeeded' || (restoring && !outcome && !this.byId.has(id))) continue;
+            if (outcome) {
+                this.failDependent(element, id, outcome);
+                return;
+            }
+            unresolved.add(id);
+        }
+
+        if (unresolved.size === 0) {
+            this.store(element);
+            return;
+        }
+        this.waiting.set(element, unresolved);
+        unresolved.forEach(id => {
+            const waiters = this.dependents.get(id) ?? new Set<QueueElement<T>>();
+            waiters.add(element);
+            this.dependents.set(id, waiters);
+        });
+    }
+
+    private assertAcyclic(element: QueueElement<T>): void {
+        if (element.id === undefined || !element.dependsOn) return;
+
+        const seen = new Set<string>();
+        const visit = (id: string, trail: string[]): void => {
+            if (id === element.id) {
+                throw new Error(`Dependency cycle: ${[element.id, ...trail].join(' -> ')}`);
+            }
+            if (seen.has(id)) return;
+            seen.add(id);
+
+            const dependency = this.byId.get(id);
+            if (dependency && this.waiting.has(dependency)) {
+                dependency.dependsOn!.forEach(next => visit(next, [...trail, next]));
+            }
+        };
+        element.dependsOn.forEach(id => visit(id, [id]));
+    }
+
+    private recordOutcome(element: QueueElement<T>, outcome: JobOutcome): void {
+        // Jobs cut short by a shutdown resume on the next start, so their dependents keep waiting.
+        if (element.id === undefined || this.generatedIds.has(element)) return;
+        if (this.shuttingDown && outcome === 'cancelled') return;
+
+        const id = element.id;
+        this.pruneOutcomes();
+        this.outcomes.delete(id);
+        this.outcomes.set(id, { outcome, expiresAt: this.clock.now() + this.options.outcomeTtlMs });
+        const waiters = this.outcomeWaiters.get(id) ?? [];
+        this.outcomeWaiters.delete(id);
+        waiters.forEach(resolve => resolve(outcome));
+
+        const dependents = this.dependents.get(id);
+        this.dependents.delete(id);
+        dependents?.forEach(dependent => {
+            const unresolved = this.waiting.get(dependent);
+            if (!unresolved) return;
+
+            if (outcome !== 'succeeded') {
+                this.waiting.delete(dependent);
+                this.failDependent(dependent, id, outcome);
+            } else if (unresolved.delete(id) && unresolved.size === 0) {
+                this.waiting.delete(dependent);
+                this.store(dependent);
+                this.wakeWorkers();
+            }
+        });
+    }
+
+    private failDependent(element: QueueElement<T>, id: string, outcome: JobOutcome): void {
+        const cancel = this.options.dependencyFailure === 'cancel';
+        const error: QueueElementError = {
+            errorType: cancel ? 'cancelled' : 'skipped',
+            errorMessage: `Dependency "${id}" ${outcome}`,
+        };
+        this.journal({ type: 'fail', id: element.id!, error });
+        this.drop(element, error, cancel);
+    }
+
+    private store(element: QueueElement<T>): void {
+        if (element.runAt !== undefined && element.runAt > this.clock.now()) {
+            this.delayed.push(element, -element.runAt);
+            this.armDelayTimer();
+        } else {
+            this.items.push(element, element.priority ?? 0);
+        }
+    }
+
+    // One timer for the earliest delayed item; due items move to the ready store when it fires.
+    private armDelayTimer(): void {
+        this.clock.clearTimeout(this.delayTimer);
+        this.delayTimer = undefined;
+
+        const next = this.delayed.peek();
+        if (!next || this.shuttingDown) return;
+
+        const wait = Math.min(Math.max(next.runAt! - this.clock.now(), 0), MAX_TIMER_DELAY);
+        this.delayTimer = this.clock.setTimeout(() => this.promoteDue(), wait);
+    }
+
+    private promoteDue(): void {
+        const now = this.clock.now();
+        let promoted = false;
+        while (this.delayed.peek() && this.delayed.peek()!.runAt! <= now) {
+            const element = this.delayed.pop()!;
+            this.items.push(element, element.priority ?? 0);
+            promoted = true;
+        }
+
+        this.armDelayTimer();
+        if (promoted) this.wakeWorkers();
+    }
+
+    // Applies the overflow policy; returns whether the new element may still be inserted.
+    private makeRoom(element: QueueElement<T>): boolean {
+        const error: QueueElementError = { errorType: 'maxQueueSize', errorMessage: 'Queue is full' };
+
+        switch (this.options.overflow) {
+            case 'drop-oldest': {
+                const oldest = this.items.removeOldest() ?? this.delayed.removeOldest();
+                if (!oldest) {
+                    // Only items waiting on dependencies fill the queue, and those are never evicted.
+                    this.drop(element, error);
+                    return false;
+                }
 
-        if (!this.isRunning && this.options.autoStart) {
-            this.start();
+                const evicted: QueueElementError = { errorType: 'maxQueueSize', errorMessage: 'Evicted by a newer item' };
+                this.journal({ type: 'fail', id: oldest.id!, error: evicted });
+                this.drop(oldest, evicted);
+                return true;
+            }
+            case 'drop-newest':
+                this.drop(element, error, false);
+                return false;
+            default:
+                this.drop(element, error);
+                return false;
         }
     }
 
+    private drop(element: QueueElement<T>, error: QueueElementError, notifyError: boolean = true): void {
+        const payload = { item: element.item, element: { ...element, error }, attempt: 0, duration: 0, error };
+        this.stats.droppedItems++;
+        this.forget(element);
+        this.events.emit('dropped', payload);
+        if (notifyError) this.events.emit('error', payload);
+        this.settle(element, error);
+        this.recordOutcome(element, error.errorType === 'skipped' ? 'skipped' : 'cancelled');
+    }
+
     private isQueueFull(): boolean {
-        return this.items.length >= this.options.maxQueueSize;
+        return this.items.size() + this.delayed.size() + this.waiting.size >= this.options.maxQueueSize;
     }
 
     private dequeue(): QueueElement<T> | undefined {
-        return this.items.shift();
+        const element = this.activeKeys.size > 0
+            ? this.items.popWhere(candidate => this.canRunKey(candidate.key))
+            : this.items.pop();
+        if (!element) return undefined;
+
+        if (element.key !== undefined) {
+            this.activeKeys.set(element.key, (this.activeKeys.get(element.key) ?? 0) + 1);
+        }
+        this.admitBlocked();
+        return element;
+    }
+
+    private canRunKey(key?: string): boolean {
+        return key === undefined || (this.activeKeys.get(key) ?? 0) < this.options.keyConcurrency;
+    }
+
+    private releaseKey(key?: string): void {
+        if (key === undefined) return;
+
+        const count = (this.activeKeys.get(key) ?? 1) - 1;
+        if (count > 0) {
+            this.activeKeys.set(key, count);
+        } else {
+            this.activeKeys.delete(key);
+        }
+        this.wakeWorkers();
     }
 
     public peek(): T | undefined {
-        return this.items[0]?.item;
+        return this.items.peek()?.item;
     }
 
     public getItems(): T[] {
-        return this.items.map(item => item.item);
+        return this.items.toArray().map(element => element.item);
+    }
+
+    public updatePriority(item: T, priority: number): boolean {
+        // A delayed item keeps its place in the schedule; the new priority applies once it is due.
+        const element = this.items.update(candidate => candidate.item === item, priority)
+            ?? [...this.delayed.toArray(), ...this.waiting.keys()].find(candidate => candidate.item === item);
+        if (!element) return false;
+
+        element.priority = priority;
+        if (this.storage && element.id) {
+            this.storage.append({ type: 'priority', id: element.id, priority });
+        }
+        return true;
     }
 
     public clear(): void {
-        this.items = [];
+        const error: QueueElementError = { errorType: 'cancelled', errorMessage: 'Cancelled' };
+        const pending = [...this.items.toArray(), ...this.delayed.toArray(), ...this.waiting.keys()];
+        this.items.clear();
+        this.delayed.clear();
+        this.waiting.clear();
+        this.dependents.clear();
+        pending.forEach(element => {
+            this.journal({ type: 'fail', id: element.id!, error });
+            this.forget(element);
+            this.settle(element, error);
+            this.recordOutcome(element, 'cancelled');
+        });
+        this.stats.clearedItems += pending.length;
+        this.armDelayTimer();
+        this.wakeWorkers();
+        this.rejectBlocked(error);
+        this.active.forEach(job => job.controller.abort(new Error('Cancelled')));
+        this.notifyIdle();
     }
 
     public isEmpty(): boolean {
-        return this.items.length === 0;
+        return this.items.isEmpty() && this.delayed.isEmpty() && this.waiting.size === 0;
+    }
+
+    // Resolves with the outcome of every given id and everything it depends on; by default every pending id.
+    // Ids that are never enqueued keep the promise pending.
+    public async waitForGraph(ids?: string[]): Promise<Map<string, JobOutcome>> {
+        const graph = new Set<string>();
+        const visit = (id: string): void => {
+            if (graph.has(id)) return;
+            graph.add(id);
+            this.byId.get(id)?.dependsOn?.forEach(visit);
+        };
+        (ids ?? [...this.byId.keys()]).forEach(visit);
+
+        const outcomes = await Promise.all([...graph].map(id => this.outcomeOf(id)));
+        return new Map([...graph].map((id, i) => [id, outcomes[i]]));
+    }
+
+    private outcomeOf(id: string): Promise<JobOutcome> {
+        const outcome = this.outcomeFor(id);
+        if (outcome) return Promise.resolve(outcome);
+
+        return new Promise(resolve => {
+            const waiters = this.outcomeWaiters.get(id) ?? [];
+            waiters.push(resolve);
+            this.outcomeWaiters.set(id, waiters);
+        });
+    }
+
+    private outcomeFor(id: string): JobOutcome | undefined {
+        this.pruneOutcomes();
+        return this.outcomes.get(id)?.outcome;
+    }
+
+    private pruneOutcomes(): void {
+        const now = this.clock.now();
+        for (const [id, entry] of this.outcomes) {
+            if (entry.expiresAt > now) break;
+            this.outcomes.delete(id);
+        }
+    }
+
+    // Occurrences are enqueued like regular items, so they count towards maxQueueSize and follow the overflow policy.
+    // Occurrences that fall due while the queue is paused are skipped.
+    public schedule(item: T, options: ScheduleOptions): ScheduledJob {
+        if (this.shuttingDown) {
+            throw new Error('Queue is shut down');
+        }
+
+        const { everyMs, cron, ...enqueueOptions } = options;
+        let next: (after: number) => number;
+        if (cron !== undefined && everyMs === undefined) {
+            const expression = parseCron(cron);
+            next = (after): number => nextCronTime(expression, after);
+        } else if (everyMs !== undefined && cron === undefined) {
+            if (!(everyMs > 0)) {
+                throw new Error('everyMs must be greater than 0');
+            }
+            next = (after): number => after + everyMs;
+        } else {
+            throw new Error('Exactly one of everyMs or cron is required');
+        }
+
+        const job: RecurringJob = { runAt: next(this.clock.now()) };
+        const arm = (): void => {
+            job.timer = this.clock.setTimeout(fire, Math.min(Math.max(job.runAt - this.clock.now(), 0), MAX_TIMER_DELAY));
+        };
+        const fire = (): void => {
+            const now = this.clock.now();
+            if (now < job.runAt) return arm();
+
+            if (!this.paused) this.enqueue(item, enqueueOptions);
+            // Missed occurrences are skipped rather than enqueued in a burst.
+            do {
+                job.runAt = next(job.runAt);
+            } while (job.runAt <= now);
+            arm();
+        };
+
+        this.recurring.add(job);
+        arm();
+
+        return {
+            nextRunAt: (): number | undefined => this.recurring.has(job) ? job.runAt : undefined,
+            cancel: (): boolean => {
+                this.clock.clearTimeout(job.timer);
+                return this.recurring.delete(job);
+            },
+        };
+    }
+
+    public pause(): void {
+        this.paused = true;
+    }
+
+    public resume(): void {
+        if (!this.paused) return;
+
+        this.paused = false;
+        const waiters = this.resumeWaiters;
+        this.resumeWaiters = [];
+        waiters.forEach(resolve => resolve());
+
+        if (!this.isRunning && !this.shuttingDown && !this.isEmpty() && this.options.autoStart) {
+            this.startInBackground();
+        }
+    }
+
+    public setRateLimit(rateLimit?: RateLimitOptions): void {
+        if (!rateLimit) {
+            this.rateLimiter = undefined;
+        } else if (this.rateLimiter) {
+            this.rateLimiter.update(rateLimit);
+        } else {
+            this.rateLimiter = new RateLimiter(rateLimit, () => this.clock.now());
+        }
+    }
+
+    public getRateLimit(): RateLimitOptions | undefined {
+        return this.rateLimiter?.getOptions();
+    }
+
+    public getDeadLetters(): DeadLetterEntry<T>[] {
+        return this.deadLetters?.list() ?? [];
+    }
+
+    public getDeadLetter(id: number): DeadLetterEntry<T> | undefined {
+        return this.deadLetters?.get(id);
+    }
+
+    public requeueDeadLetters(filter?: (entry: DeadLetterEntry<T>) => boolean): number {
+        if (!this.deadLetters) return 0;
+
+        const entries = this.deadLetters.take(filter);
+        const rejected = entries.filter(entry => {
+            const element: QueueElement<T> = { ...entry.element };
+            delete element.error;
+            delete element.attempts;
+            return !this.insert(element);
+        });
+        this.deadLetters.restore(rejected);
+        return entries.length - rejected.length;
+    }
+
+    public purgeDeadLetters(filter?: (entry: DeadLetterEntry<T>) => boolean): number {
+        return this.deadLetters?.take(filter).length ?? 0;
+    }
+
+    public isPaused(): boolean {
+        return this.paused;
+    }
+
+    public activeCount(): number {
+        return this.active.size;
+    }
+
+    // Rejects when a run started by autoStart or drain() failed, since nobody else can observe that failure.
+    public onIdle(): Promise<void> {
+        if (this.idleError !== undefined) {
+            const error = this.idleError;
+            this.idleError = undefined;
+            return Promise.reject(error);
+        }
+        if (this.isIdle()) return Promise.resolve();
+        return new Promise((resolve, reject) => this.idleWaiters.push({ resolve, reject }));
+    }
+
+    public async drain(): Promise<void> {
+        if (!this.isRunning && !this.paused && !this.shuttingDown && !this.isEmpty()) {
+            this.startInBackground();
+        }
+        await this.onIdle();
+    }
+
+    public async shutdown(options?: ShutdownOptions): Promise<void> {
+        const graceful = options?.graceful ?? true;
+        const error: QueueElementError = { errorType: 'shutdown', errorMessage: 'Queue is shut down' };
+        this.shuttingDown = true;
+        this.source = undefined;
+        this.recurring.forEach(job => this.clock.clearTimeout(job.timer));
+        this.recurring.clear();
+
+        // Workers stop taking items, so everything that has not started is rejected now.
+        // Their journal entries stay, so the next queue on this storage still runs them.
+        const pending = [...this.items.toArray(), ...this.delayed.toArray(), ...this.waiting.keys()];
+        this.items.clear();
+        this.delayed.clear();
+        this.waiting.clear();
+        this.dependents.clear();
+        pending.forEach(element => this.drop(element, error));
+        this.armDelayTimer();
+        this.rejectBlocked(error);
+        this.resume();
+        this.wakeWorkers();
+
+        if (!graceful) {
+            this.abortActive('Shutdown');
+        } else if (options?.timeoutMs !== undefined && this.running) {
+            const timeoutMs = options.timeoutMs;
+            let timer: ClockTimer | undefined;
+            const timedOut = new Promise<void>(resolve => {
+                timer = this.clock.setTimeout(() => {
+                    this.abortActive('Shutdown timeout');
+                    resolve();
+                }, timeoutMs);
+            });
+            await Promise.race([this.running.catch(() => undefined), timedOut]);
+            this.clock.clearTimeout(timer);
+        }
+
+        // A source failure rejects start(); shutdown only waits for the workers to stop.
+        await this.running?.catch(() => undefined);
+        await this.workerPool?.terminate();
+        this.flushIdle();
+    }
+
+    public on<K extends keyof AsyncQueueEvents<T, R>>(event: K, listener: EventListener<AsyncQueueEvents<T, R>[K]>): this {
+        this.events.on(event, listener);
+        return this;
+    }
+
+    public once<K extends keyof AsyncQueueEvents<T, R>>(event: K, listener: EventListener<AsyncQueueEvents<T, R>[K]>): this {
+        this.events.once(event, listener);
+        return this;
+    }
+
+    public off<K extends keyof AsyncQueueEvents<T, R>>(event: K, listener: EventListener<AsyncQueueEvents<T, R>[K]>): this {
+        this.events.off(event, listener);
+        return this;
     }
 
     public setStartedHandler(callback: (item: T) => void): void {
-        this.handlers.started = callback;
+        this.replaceHandler('started', ({ item }) => callback(item));
     }
 
     public setSuccessHandler(callback: (item: T) => void): void {
-        this.handlers.success = callback;
+        this.replaceHandler('success', ({ item }) => callback(item));
     }
 
     public setErrorHandler(callback: (element: QueueElement<T>) => void): void {
-        this.handlers.error = callback;
+        this.replaceHandler('error', ({ element }) => callback(element));
     }
 
     public setEndHandler(callback: () => void): void {
-        this.handlers.end = callback;
+        this.replaceHandler('end', () => callback());
     }
 
-    private markSuccess(): void {
+    // The set*Handler methods keep their single-callback semantics on top of the event emitter.
+    private replaceHandler<K extends keyof LegacyHandlers<T, R>>(event: K, listener: EventListener<AsyncQueueEvents<T, R>[K]>): void {
+        const previous = this.legacyHandlers[event] as EventListener<AsyncQueueEvents<T, R>[K]> | undefined;
+        if (previous) this.events.off(event, previous);
+
+        this.legacyHandlers[event] = listener as LegacyHandlers<T, R>[K];
+        this.events.on(event, listener);
+    }
+
+    private markSuccess(job: ActiveJob<T>): void {
         this.stats.processedItems++;
-        this.updateSuccessRate();
+        this.processingTime.observe(this.clock.now() - job.startedAt);
     }
 
-    private markFailure(): void {
+    private markFailure(job: ActiveJob<T>): void {
         this.stats.failedItems++;
-        this.updateSuccessRate();
+        this.processingTime.observe(this.clock.now() - job.startedAt);
     }
 
     private async processElement(element: QueueElement<T>): Promise<void> {
-        this.handlers.started(element.item);
+        const job: ActiveJob<T> = {
+            element,
+            controller: new AbortController(),
+            startedAt: this.clock.now(),
+            attempt: (element.attempts ?? 0) + 1,
+            attempts: [],
+        };
+        this.active.set(element, job);
+        const readyAt = Math.max(element.enqueuedAt ?? job.startedAt, element.runAt ?? 0);
+        this.waitTime.observe(Math.max(job.startedAt - readyAt, 0));
+        this.events.emit('started', this.jobPayload(job));
 
         try {
-            if (this.options.maxRetries === 0) {
-                await this.runWithTimeout(() => this.consumer!(element.item), this.options.timeout);
-                this.handlers.success(element.item);
-                this.markSuccess();
-            } else {
-                await this.processWithRetries(element, this.consumer!);
-            }
+            const result = await this.processWithRetries(job);
+            this.journal({ type: 'ack', id: element.id! });
+            this.rememberCompleted(element);
+            this.events.emit('success', { ...this.jobPayload(job), result });
+            this.markSuccess(job);
+            this.settle(element, { result });
+            this.recordOutcome(element, 'succeeded');
         } catch (err) {
-            this.handlers.error({
-                ...element,
-                error: {
-                    errorType: 'error',
-                    errorMessage: (err as Error)?.message || 'Unknown error',
-                },
-            });
-            this.markFailure();
+            const error: QueueElementError = {
+                errorType: this.classifyError(err, job.controller.signal),
+                errorMessage: (err as Error)?.message || 'Unknown error',
+                attempts: job.attempts,
+            };
+            // Jobs aborted by a shutdown stay in the journal so the next queue on this storage resumes them.
+            if (!(this.shuttingDown && error.errorType === 'cancelled')) {
+                this.journal({ type: 'fail', id: element.id!, error });
+            }
+            this.events.emit('error', { ...this.jobPayload(job), element: { ...element, error }, error });
+            this.markFailure(job);
+            if (this.deadLetters && error.errorType !== 'cancelled') {
+                this.deadLetters.add(element, error, this.clock.now());
+            }
+            this.settle(element, error);
+            this.recordOutcome(element, error.errorType === 'cancelled' ? 'cancelled' : 'failed');
+        } finally {
+            this.active.delete(element);
+            this.forget(element);
+            this.releaseKey(element.key);
+            // Workers parked on waiting items re-check once a job ends, even if none of them became ready.
+            this.wakeWorkers();
+            this.notifyIdle();
         }
     }
 
-    private async processWithRetries(element: QueueElement<T>, processFn: (item: T) => Promise<void>): Promise<void> {
-        let retriesLeft = this.options.maxRetries;
+    private async processWithRetries(job: ActiveJob<T>): Promise<R> {
+        const { element, controller: { signal } } = job;
+        const timeout = element.timeout ?? this.options.timeout;
+        let retriesLeft = (element.maxRetries ?? this.options.maxRetries) - (element.attempts ?? 0);
 
-        while (retriesLeft >= 0) {
+        // eslint-disable-next-line no-constant-condition
+        while (true) {
+            let attemptStartedAt = this.clock.now();
+            let inCircuit = false;
             try {
-                await this.runWithTimeout(() => processFn(element.item), this.options.timeout);
-                this.handlers.success(element.item);
-                this.markSuccess();
-                return;
+                inCircuit = await this.enterCircuit(signal);
+                await this.waitForSlot(signal);
+                attemptStartedAt = this.clock.now();
+                this.journal({ type: 'start', id: element.id!, attempt: job.attempt });
+                const result = await this.runWithTimeout(attempt => this.consumer!(element.item, attempt), timeout, signal);
+                if (inCircuit) this.leaveCircuit();
+                return result;
             } catch (err) {
-                if (retriesLeft === 0) {
-                    this.handlers.error({
-                        ...element,
-                        error: {
-                            errorType: 'error',
-                            errorMessage: (err as Error)?.message || 'Unknown error',
-                        },
-                    });
-                    this.markFailure();
-                    return;
-                } else {
-                    retriesLeft--;
-                    await new Promise(res => setTimeout(res, this.options.retryDelay));
+                const errorType = this.classifyError(err, signal);
+                if (inCircuit) this.leaveCircuit(errorType);
+                job.attempts.push({
+                    attempt: job.attempt,
+                    errorType,
+                    errorMessage: (err as Error)?.message || 'Unknown error',
+                    startedAt: attemptStartedAt,
+                    duration: this.clock.now() - attemptStartedAt,
+                });
+
+                if (errorType === 'timeout') {
+                    this.events.emit('timeout', { ...this.jobPayload(job), timeout });
                 }
+                if (retriesLeft <= 0 || errorType === 'cancelled' || errorType === 'circuitOpen' || !this.options.shouldRetry(err as Error, job.attempt)) {
+                    throw err;
+                }
+
+                retriesLeft--;
+                this.stats.retries++;
+                const delay = computeRetryDelay(this.options.retryDelay, job.attempt, this.options.backoff);
+                this.events.emit('retry', { ...this.jobPayload(job), error: err as Error, delay });
+                await this.delay(delay, signal);
+                job.attempt++;
             }
         }
     }
 
-    private async processSequential(): Promise<void> {
-        while (!this.isEmpty()) {
+    private journal(entry: QueueJournalEntry<T>): void {
+        this.storage?.append(entry);
+    }
+
+    private classifyError(err: unknown, signal: AbortSignal): QueueResultError {
+        if (signal.aborted) return 'cancelled';
+        if (err instanceof TimeoutError) return 'timeout';
+        if (err instanceof CircuitOpenError) return 'circuitOpen';
+        return 'error';
+    }
+
+    // Returns whether the attempt holds a circuit slot that leaveCircuit must give back.
+    private async enterCircuit(signal: AbortSignal): Promise<boolean> {
+        const breaker = this.circuitBreaker;
+        if (!breaker) return false;
+
+        while (!breaker.tryAcquire()) {
+            if (this.rejectWhenOpen) throw new CircuitOpenError();
+            await this.waitForCircuit(signal);
+        }
+        return true;
+    }
+
+    private leaveCircuit(errorType?: QueueResultError): void {
+        const breaker = this.circuitBreaker!;
+        if (errorType === undefined) {
+            breaker.recordSuccess();
+        } else if (errorType === 'error' || errorType === 'timeout') {
+            breaker.recordFailure();
+        } else {
+            breaker.release();
+        }
+        this.wakeWorkers();
+    }
+
+    private isCircuitPaused(): boolean {
+        return !!this.circuitBreaker && !this.rejectWhenOpen && !this.circuitBreaker.permitsCalls();
+    }
+
+    // Resolves when the circuit may let calls through again or another worker reports a result.
+    private waitForCircuit(signal?: AbortSignal): Promise<void> {
+        return new Promise((resolve, reject) => {
+            if (signal?.aborted) return reject(signal.reason);
+
+            const nextAttemptAt = this.circuitBreaker!.nextAttemptAt();
+            const done = (): void => {
+                this.clock.clearTimeout(timer);
+                signal?.removeEventListener('abort', onAbort);
+                resolve();
+            };
+            const onAbort = (): void => {
+                this.clock.clearTimeout(timer);
+                reject(signal!.reason);
+            };
+            const timer = nextAttemptAt !== null ? this.clock.setTimeout(done, Math.max(nextAttemptAt - this.clock.now(), 0)) : undefined;
+            signal?.addEventListener('abort', onAbort, { once: true });
+            this.workWaiters.push(done);
+        });
+    }
+
+    private async waitForSlot(signal: AbortSignal): Promise<void> {
+        const limiter = this.rateLimiter;
+        if (!limiter) return;
+
+        const wait = limiter.reserve();
+        if (wait === 0) return;
+
+        try {
+            await this.delay(wait, signal);
+        } catch (err) {
+            limiter.release();
+            throw err;
+        }
+    }
+
+    private jobPayload(job: ActiveJob<T>): QueueEventPayload<T> {
+        return {
+            item: job.element.item,
+            element: job.element,
+            attempt: job.attempt,
+            duration: this.clock.now() - job.startedAt,
+        };
+    }
+
+    private async nextElement(): Promise<QueueElement<T> | undefined> {
+        // eslint-disable-next-line no-constant-condition
+        while (true) {
+            while (this.paused) {
+                await new Promise<void>(resolve => this.resumeWaiters.push(resolve));
+            }
+            if (this.shuttingDown) return undefined;
+
+            if (!this.items.isEmpty() && this.isCircuitPaused()) {
+                // Items stay queued while the circuit is open instead of piling up as running jobs.
+                await this.waitForCircuit();
+                continue;
+            }
+
             const element = this.dequeue();
-            if (element) await this.processElement(element);
+            if (element) return element;
+
+            if (!this.items.isEmpty()) {
+                // Every pending item belongs to a key that is already running; wait for one to finish.
+                await new Promise<void>(resolve => this.workWaiters.push(resolve));
+            } else if (this.source) {
+                await this.pullFromSource();
+            } else if (!this.delayed.isEmpty() || this.options.persistent || (this.waiting.size > 0 && this.active.size > 0)) {
+                // More work is coming: a delayed item falls due, a producer enqueues or a running job releases its dependents.
+                await new Promise<void>(resolve => this.workWaiters.push(resolve));
+            } else {
+                return undefined;
+            }
+        }
+    }
+
+    private wakeWorkers(): void {
+        const waiters = this.workWaiters;
+        this.workWaiters = [];
+        waiters.forEach(resolve => resolve());
+    }
+
+    private async processSequential(): Promise<void> {
+        // eslint-disable-next-line no-constant-condition
+        while (true) {
+            const element = await this.nextElement();
+            if (!element) break;
+            await this.processElement(element);
         }
     }
 
@@ -198,7 +1365,7 @@ export class AsyncQueue<T> {
             workers.push((async (): Promise<void> => {
                 // eslint-disable-next-line no-constant-condition
                 while (true) {
-                    const element = this.dequeue();
+                    const element = await this.nextElement();
                     if (!element) break;
                     await this.processElement(element);
                 }
@@ -208,8 +1375,42 @@ export class AsyncQueue<T> {
         await Promise.all(workers);
     }
 
-    public setConsumer(processFn: (item: T) => Promise<void>): void {
+    public setConsumer(processFn: (item: T, signal: AbortSignal) => Promise<R>): void {
+        this.releaseWorkerPool();
         this.consumer = processFn;
+        this.batchSize = 1;
+    }
+
+    // Each item still goes through its own retry, timeout and event pipeline; only the consumer call is batched.
+    public setBatchConsumer(processFn: BatchConsumer<T, R>, options: BatchOptions): void {
+        this.releaseWorkerPool();
+        const batcher = new Batcher(processFn, options, this.options.maxConcurrent, this.clock);
+        this.consumer = (item, signal): Promise<R> => batcher.add(item, signal);
+        this.batchSize = options.maxBatchSize;
+    }
+
+    // The module's consumer runs in a pool of worker threads; timeouts and cancellation terminate its worker.
+    public setWorkerConsumer(modulePath: string, options?: WorkerPoolOptions<T>): void {
+        this.releaseWorkerPool();
+        const pool = new WorkerPool<T, R>(path.resolve(modulePath), options?.size ?? this.options.maxConcurrent, options);
+        this.workerPool = pool;
+        this.consumer = (item, signal): Promise<R> => pool.run(item, signal);
+        this.batchSize = 1;
+    }
+
+    private releaseWorkerPool(): void {
+        this.workerPool?.terminate().catch(() => { });
+        this.workerPool = undefined;
+    }
+
+    // Starts without a caller to reject: run() reports its failure through onIdle() instead.
+    private startInBackground(): void {
+        if (!this.consumer) {
+            this.failIdle(new Error('Consumer not set'), true);
+            return;
+        }
+        this.runInBackground = true;
+        this.start().catch(() => { });
     }
 
     public async start(): Promise<void> {
@@ -217,46 +1418,233 @@ export class AsyncQueue<T> {
             throw new Error('Consumer not set');
         }
 
+        if (this.shuttingDown) {
+            throw new Error('Queue is shut down');
+        }
+
         if (this.isRunning) {
-            return;
+            return this.running;
         }
 
+        // A failure from an earlier run no longer describes this one.
+        this.idleError = undefined;
         this.isRunning = true;
+        this.running = this.run();
+        return this.running;
+    }
 
-        const maxConcurrent = this.options.maxConcurrent;
+    private async run(): Promise<void> {
+        const runStartedAt = this.clock.now();
+        // In batch mode every concurrent batch needs enough workers to fill it.
+        const maxConcurrent = this.options.maxConcurrent * this.batchSize;
 
-        if (maxConcurrent <= 1) {
-            await this.processSequential();
-        } else {
-            await this.processConcurrent(maxConcurrent);
-        }
+        // Items enqueued after the last worker exited but before the run ended would otherwise be stranded.
+        do {
+            if (maxConcurrent <= 1) {
+                await this.processSequential();
+            } else {
+                await this.processConcurrent(maxConcurrent);
+            }
+        } while (!(this.items.isEmpty() && this.delayed.isEmpty()) && !this.shuttingDown);
 
+        const error = this.sourceError;
+        const inBackground = this.runInBackground;
+        this.sourceError = undefined;
+        this.runInBackground = false;
         this.isRunning = false;
-        this.handlers.end();
+        this.running = undefined;
+        this.events.emit('end', { duration: this.clock.now() - runStartedAt });
+
+        if (error !== undefined) this.failIdle(error, inBackground);
+        this.notifyIdle();
+        if (error !== undefined) throw error;
     }
 
     public getStats(): AsyncQueueStats {
-        return this.stats;
+        const completed = this.stats.processedItems + this.stats.failedItems;
+        return Object.freeze({
+            ...this.stats,
+            successRate: completed > 0 ? (this.stats.processedItems / completed) * 100 : 0,
+            errorRate: completed > 0 ? (this.stats.failedItems / completed) * 100 : 0,
+            queued: this.items.size(),
+            delayed: this.delayed.size(),
+            waiting: this.waiting.size,
+            inFlight: this.active.size,
+            processingTime: this.processingTime.snapshot(),
+            waitTime: this.waitTime.snapshot(),
+            throttled: this.rateLimiter?.isThrottled() ?? false,
+            nextSlotAt: this.rateLimiter?.nextSlotAt() ?? null,
+            circuit: this.circuitBreaker?.getState() ?? null,
+            circuitNextAttemptAt: this.circuitBreaker?.nextAttemptAt() ?? null,
+        });
+    }
+
+    // Pending jobs are listed in the order they would run: in-flight jobs first, then queued, delayed and
+    // waiting ones. An in-flight job counts its current attempt as used, like a job restored from storage.
+    public toJSON(options?: SerializeOptions): AsyncQueueSnapshot {
+        const serialize = (element: QueueElement<T>, state: SnapshotJobState): SerializedQueueJob =>
+            ({ state, element: { ...element, item: encodeValue(element.item, options) } });
+
+        return {
+            type: 'AsyncQueue',
+            takenAt: this.clock.now(),
+            pending: [
+                ...[...this.active.values()].map(job => serialize({ ...job.element, attempts: job.attempt }, 'active')),
+                ...this.items.toArray().map(element => serialize(element, 'queued')),
+                ...this.delayed.toArray().map(element => serialize(element, 'delayed')),
+                ...[...this.waiting.keys()].map(element => serialize(element, 'waiting')),
+            ],
+            stats: this.getStats(),
+        };
+    }
+
+    // Re-enqueues the pending jobs and restores the counters. Latency histograms start empty, and dependencies
+    // on jobs missing from the snapshot count as satisfied.
+    public static fromJSON<T, R = void>(data: AsyncQueueSnapshot | string, options?: AsyncQueueOptions<T> & SerializeOptions): AsyncQueue<T, R> {
+        const snapshot = readSerialized(data, 'AsyncQueue');
+        const queue = new AsyncQueue<T, R>(options);
+        const elements = snapshot.pending.map(job => ({ ...job.element, item: decodeValue(job.element.item, options) as T }));
+
+        elements.forEach(element => {
+            if (!queue.storage) return;
+            if (element.id === undefined) {
+                element.id = randomUUID();
+                queue.generatedIds.add(element);
+            }
+            queue.storage.append({ type: 'enqueue', id: element.id, element: { ...element } });
+        });
+        queue.restoreElements(elements);
+
+        const { totalItems, processedItems, failedItems, retries, droppedItems, clearedItems, dedupedItems } = snapshot.stats;
+        queue.stats = { totalItems: queue.stats.totalItems + totalItems - elements.length, processedItems, failedItems, retries, droppedItems, clearedItems, dedupedItems };
+        return queue;
     }
 
-    private updateSuccessRate(): void {
-        const total = this.stats.processedItems + this.stats.failedItems;
-        if (total > 0) {
-            this.stats.successRate = (this.stats.processedItems / total) * 100;
-            this.stats.errorRate = (this.stats.failedItems / total) * 100;
+    public resetStats(): void {
+        this.stats = AsyncQueue.emptyCounters();
+        this.processingTime.reset();
+        this.waitTime.reset();
+    }
+
+    public toPrometheus(prefix: string = 'mjs_async_queue'): string {
+        const stats = this.getStats();
+        const lines = [
+            ...prometheusMetric(`${prefix}_items_total`, 'counter', 'Items accepted by the queue.', stats.totalItems),
+            ...prometheusMetric(`${prefix}_processed_total`, 'counter', 'Items processed successfully.', stats.processedItems),
+            ...prometheusMetric(`${prefix}_failed_total`, 'counter', 'Items that failed after all retries.', stats.failedItems),
+            ...prometheusMetric(`${prefix}_retries_total`, 'counter', 'Retry attempts.', stats.retries),
+            ...prometheusMetric(`${prefix}_dropped_total`, 'counter', 'Items rejected on enqueue.', stats.droppedItems),
+            ...prometheusMetric(`${prefix}_cleared_total`, 'counter', 'Pending items removed by clear().', stats.clearedItems),
+            ...prometheusMetric(`${prefix}_deduped_total`, 'counter', 'Items skipped or merged because their id was pending or recently completed.', stats.dedupedItems),
+            ...prometheusMetric(`${prefix}_queued`, 'gauge', 'Items waiting to be processed.', stats.queued),
+            ...prometheusMetric(`${prefix}_delayed`, 'gauge', 'Items waiting for their scheduled run time.', stats.delayed),
+            ...prometheusMetric(`${prefix}_waiting`, 'gauge', 'Items waiting for their dependencies.', stats.waiting),
+            ...prometheusMetric(`${prefix}_in_flight`, 'gauge', 'Items currently being processed.', stats.inFlight),
+            ...prometheusMetric(`${prefix}_throttled`, 'gauge', 'Whether the rate limit is currently throttling consumers.', stats.throttled ? 1 : 0),
+            ...(stats.circuit ? prometheusMetric(`${prefix}_circuit_state`, 'gauge', 'Circuit breaker state: 0 closed, 1 half-open, 2 open.', ['closed', 'half-open', 'open'].indexOf(stats.circuit)) : []),
+            ...this.processingTime.toPrometheus(`${prefix}_processing_time_ms`, 'Time from start to completion of an item, retries included.'),
+            ...this.waitTime.toPrometheus(`${prefix}_wait_time_ms`, 'Time items spent waiting in the queue before starting.'),
+        ];
+        return lines.join('\n') + '\n';
+    }
+
+    private static emptyCounters(): QueueCounters {
+        return {
+            totalItems: 0,
+            processedItems: 0,
+            failedItems: 0,
+            retries: 0,
+            droppedItems: 0,
+            clearedItems: 0,
+            dedupedItems: 0,
+        };
+    }
+
+    private isIdle(): boolean {
+        return this.isEmpty() && this.active.size === 0 && this.blocked.length === 0 && !this.source;
+    }
+
+    private markBusy(): void {
+        if (!this.idle) return;
+
+        this.idle = false;
+        this.busySince = this.clock.now();
+    }
+
+    private notifyIdle(): void {
+        if (!this.isIdle()) return;
+
+        if (!this.idle) {
+            this.idle = true;
+            this.events.emit('idle', { duration: this.clock.now() - this.busySince });
         }
+        this.flushIdle();
     }
 
-    private async runWithTimeout<R>(fn: () => Promise<R>, timeout: number): Promise<R> {
+    private flushIdle(): void {
+        const waiters = this.idleWaiters;
+        this.idleWaiters = [];
+        waiters.forEach(waiter => waiter.resolve());
+    }
+
+    // Rejects the pending onIdle() calls; with nobody waiting, the next call rejects when remember is set.
+    private failIdle(error: unknown, remember: boolean): void {
+        const waiters = this.idleWaiters;
+        this.idleWaiters = [];
+        if (waiters.length === 0 && remember) this.idleError = error;
+        waiters.forEach(waiter => waiter.reject(error));
+    }
+
+    private abortActive(reason: string): void {
+        this.active.forEach(job => job.controller.abort(new Error(reason)));
+    }
+
+    private delay(ms: number, signal: AbortSignal): Promise<void> {
         return new Promise((resolve, reject) => {
-            const timer = setTimeout(() => reject(new Error('Timeout')), timeout);
-            fn()
+            if (signal.aborted) return reject(signal.reason);
+
+            const onAbort = (): void => {
+                this.clock.clearTimeout(timer);
+                reject(signal.reason);
+            };
+            const timer = this.clock.setTimeout(() => {
+                signal.removeEventListener('abort', onAbort);
+                resolve();
+            }, ms);
+            signal.addEventListener('abort', onAbort, { once: true });
+        });
+    }
+
+    // The attempt gets its own controller so a timeout aborts the consumer's work instead of leaving it running.
+    private async runWithTimeout<V>(fn: (signal: AbortSignal) => Promise<V>, timeout: number, parent: AbortSignal): Promise<V> {
+        return new Promise((resolve, reject) => {
+            if (parent.aborted) return reject(parent.reason);
+
+            const attempt = new AbortController();
+            const settle = (): void => {
+                this.clock.clearTimeout(timer);
+                parent.removeEventListener('abort', onAbort);
+            };
+            const onAbort = (): void => {
+                settle();
+                attempt.abort(parent.reason);
+                reject(parent.reason);
+            };
+            const timer = this.clock.setTimeout(() => {
+                settle();
+                const error = new TimeoutError();
+                attempt.abort(error);
+                reject(error);
+            }, timeout);
+            parent.addEventListener('abort', onAbort, { once: true });
+
+            fn(attempt.signal)
                 .then(result => {
-                    clearTimeout(timer);
+                    settle();
                     resolve(result);
                 })
                 .catch(err => {
-                    clearTimeout(timer);
+                    settle();
                     reject(err);
                 });
         });
@@ -0,0 +1,112 @@
+import { Clock, ClockTimer, systemClock } from './clock';
+
+export interface BatchOptions {
+    maxBatchSize: number;
+    maxWaitMs: number;
+}
+
+export type BatchItemResult<R> =
+    | { status: 'fulfilled'; value: R }
+    | { status: 'rejected'; reason: unknown };
+
+// Returning nothing marks every item as successful, which only type-checks when R itself allows no value.
+export type BatchConsumer<T, R> = (items: T[], signal: AbortSignal) => Promise<BatchItemResult<R>[] | Extract<R, void | undefined>>;
+
+interface PendingCall<T, R> {
+    item: T;
+    signal: AbortSignal;
+    resolve: (result: R) => void;
+    reject: (error: unknown) => void;
+}
+
+// Collects single-item calls into batches of up to `maxBatchSize`, flushing early once the oldest call
+// has waited `maxWaitMs`. At most `maxConcurrent` batches run at the same time.
+export class Batcher<T, R> {
+    private pending: PendingCall<T, R>[] = [];
+    private timer?: ClockTimer;
+    private due = false;
+    private inFlight = 0;
+
+    constructor(
+        private readonly consumer: BatchConsumer<T, R>,
+        private readonly options: BatchOptions,
+        private readonly maxConcurrent: number,
+        private readonly clock: Clock = systemClock,
+    ) {
+        if (options.maxBatchSize < 1) {
+            throw new Error('maxBatchSize must be at least 1');
+        }
+    }
+
+    public add(item: T, signal: AbortSignal): Promise<R> {
+        return new Promise((resolve, reject) => {
+            const call: PendingCall<T, R> = { item, signal, resolve, reject };
+            signal.addEventListener('abort', () => {
+                this.pending = this.pending.filter(candidate => candidate !== call);
+                reject(signal.reason);
+            }, { once: true });
+
+            this.pending.push(call);
+            if (this.pending.length >= this.options.maxBatchSize) {
+                this.markDue();
+            } else if (!this.timer) {
+                this.timer = this.clock.setTimeout(() => this.markDue(), this.options.maxWaitMs);
+            }
+        });
+    }
+
+    private markDue(): void {
+        this.clock.clearTimeout(this.timer);
+        this.timer = undefined;
+        this.due = true;
+        this.flush();
+    }
+
+    private flush(): void {
+        while (this.due && this.pending.length > 0 && this.inFlight < this.maxConcurrent) {
+            const batch = this.pending.splice(0, this.options.maxBatchSize);
+            this.due = this.pending.length >= this.options.maxBatchSize;
+            this.run(batch);
+        }
+
+        if (this.pending.length === 0) {
+            this.due = false;
+        } else if (!this.due && !this.timer) {
+            this.timer = this.clock.setTimeout(() => this.markDue(), this.options.maxWaitMs);
+        }
+    }
+
+    private async run(batch: PendingCall<T, R>[]): Promise<void> {
+        this.inFlight++;
+        const controller = new AbortController();
+        let remaining = batch.length;
+        // The batch as a whole is only abandoned once every item in it has been aborted.
+        batch.forEach(call => call.signal.addEventListener('abort', () => {
+            if (--remaining === 0) controller.abort(call.signal.reason);
+        }, { once: true }));
+
+        try {
+            const results = await this.consumer(batch.map(call => call.item), controller.signal);
+            if (!Array.isArray(results)) {
+                batch.forEach(call => call.resolve(results));
+                return;
+            }
+
+            batch.forEach((call, i) => {
+                const result: BatchItemResult<R> | undefined = results[i];
+                if (!result) {
+                    call.reject(new Error(`Batch consumer returned no result for item ${i} of ${batch.length}`));
+                } else if (result.status === 'fulfilled') {
+                    call.resolve(result.value);
+                } else {
+                    call.reject(result.reason);
+                }
+            });
+        } catch (err) {
+            batch.forEach(call => call.reject(err));
+        } finally {
+            this.inFlight--;
+            this.flush();
+        }
+    }
+}
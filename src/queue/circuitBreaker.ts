@@ -0,0 +1,129 @@
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface CircuitBreakerOptions {
+    failureThreshold?: number;
+    failureRate?: number;
+    windowSize?: number;
+    minimumCalls?: number;
+    resetTimeoutMs?: number;
+    halfOpenMaxCalls?: number;
+    whenOpen?: 'pause' | 'reject';
+}
+
+// Opens after `failureThreshold` consecutive failures or once the failure rate over the last `windowSize`
+// calls reaches `failureRate`. After `resetTimeoutMs` it lets `halfOpenMaxCalls` trial calls through:
+// one failure opens it again, that many successes close it.
+export class CircuitBreaker {
+    private state: CircuitState = 'closed';
+    private consecutiveFailures = 0;
+    private outcomes: boolean[] = [];
+    private openedAt = 0;
+    private trials = 0;
+    private trialSuccesses = 0;
+    private readonly failureThreshold?: number;
+    private readonly failureRate?: number;
+    private readonly windowSize: number;
+    private readonly minimumCalls: number;
+    private readonly resetTimeoutMs: number;
+    private readonly halfOpenMaxCalls: number;
+
+    constructor(
+        options: CircuitBreakerOptions,
+        private readonly onStateChange: (state: CircuitState, previous: CircuitState) => void = (): void => { },
+        private readonly now: () => number = Date.now,
+    ) {
+        if (options.failureRate !== undefined && !(options.failureRate > 0 && options.failureRate <= 1)) {
+            throw new Error('failureRate must be greater than 0 and at most 1');
+        }
+
+        this.failureRate = options.failureRate;
+        this.failureThreshold = options.failureThreshold ?? (options.failureRate === undefined ? 5 : undefined);
+        this.windowSize = options.windowSize ?? 20;
+        this.minimumCalls = Math.min(options.minimumCalls ?? 10, this.windowSize);
+        this.resetTimeoutMs = options.resetTimeoutMs ?? 30000;
+        this.halfOpenMaxCalls = options.halfOpenMaxCalls ?? 1;
+    }
+
+    public getState(): CircuitState {
+        this.refresh();
+        return this.state;
+    }
+
+    public nextAttemptAt(): number | null {
+        this.refresh();
+        return this.state === 'open' ? this.openedAt + this.resetTimeoutMs : null;
+    }
+
+    public permitsCalls(): boolean {
+        this.refresh();
+        return this.state === 'closed' || (this.state === 'half-open' && this.trials < this.halfOpenMaxCalls);
+    }
+
+    // Takes a trial slot while half-open; every acquired call must end with recordSuccess, recordFailure or release.
+    public tryAcquire(): boolean {
+        if (!this.permitsCalls()) return false;
+
+        if (this.state === 'half-open') this.trials++;
+        return true;
+    }
+
+    public recordSuccess(): void {
+        if (this.state === 'half-open') {
+            this.trials = Math.max(this.trials - 1, 0);
+            if (++this.trialSuccesses >= this.halfOpenMaxCalls) this.transition('closed');
+        } else if (this.state === 'closed') {
+            this.consecutiveFailures = 0;
+            this.track(false);
+        }
+    }
+
+    public recordFailure(): void {
+        if (this.state === 'half-open') {
+            this.transition('open');
+        } else if (this.state === 'closed') {
+            this.consecutiveFailures++;
+            this.track(true);
+            if (this.shouldOpen()) this.transition('open');
+        }
+    }
+
+    public release(): void {
+        if (this.state === 'half-open') {
+            this.trials = Math.max(this.trials - 1, 0);
+        }
+    }
+
+    private track(failed: boolean): void {
+        this.outcomes.push(failed);
+        if (this.outcomes.length > this.windowSize) this.outcomes.shift();
+    }
+
+    private shouldOpen(): boolean {
+        if (this.failureThreshold !== undefined && this.consecutiveFailures >= this.failureThreshold) return true;
+        if (this.failureRate === undefined || this.outcomes.length < this.minimumCalls) return false;
+
+        const failures = this.outcomes.filter(failed => failed).length;
+        return failures / this.outcomes.length >= this.failureRate;
+    }
+
+    private refresh(): void {
+        if (this.state === 'open' && this.now() >= this.openedAt + this.resetTimeoutMs) {
+            this.transition('half-open');
+        }
+    }
+
+    private transition(state: CircuitState): void {
+        const previous = this.state;
+        this.state = state;
+        this.trials = 0;
+        this.trialSuccesses = 0;
+
+        if (state === 'open') {
+            this.openedAt = this.now();
+        } else if (state === 'closed') {
+            this.consecutiveFailures = 0;
+            this.outcomes = [];
+        }
+        this.onStateChange(state, previous);
+    }
+}
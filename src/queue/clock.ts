@@ -0,0 +1,66 @@
+export type ClockTimer = unknown;
+
+export interface Clock {
+    now(): number;
+    setTimeout(callback: () => void, ms: number): ClockTimer;
+    clearTimeout(timer: ClockTimer): void;
+}
+
+export const systemClock: Clock = {
+    now: (): number => Date.now(),
+    setTimeout: (callback, ms): ClockTimer => setTimeout(callback, ms),
+    clearTimeout: (timer): void => clearTimeout(timer as ReturnType<typeof setTimeout> | undefined),
+};
+
+interface VirtualTimer {
+    id: number;
+    at: number;
+    callback: () => void;
+}
+
+// Time only moves when advance() is called. Timers fire in due order, and pending promise callbacks run
+// after each one so that timers they schedule within the advanced window fire too.
+export class VirtualClock implements Clock {
+    private timers: VirtualTimer[] = [];
+    private nextId = 1;
+
+    constructor(private current: number = 0) { }
+
+    public now(): number {
+        return this.current;
+    }
+
+    public setTimeout(callback: () => void, ms: number): ClockTimer {
+        const timer = { id: this.nextId++, at: this.current + Math.max(ms, 0), callback };
+        // Kept sorted by due time; timers due at the same time fire in creation order.
+        const index = this.timers.findIndex(candidate => candidate.at > timer.at);
+        this.timers.splice(index === -1 ? this.timers.length : index, 0, timer);
+        return timer.id;
+    }
+
+    public clearTimeout(timer: ClockTimer): void {
+        this.timers = this.timers.filter(candidate => candidate.id !== timer);
+    }
+
+    public pendingTimers(): number {
+        return this.timers.length;
+    }
+
+    public async advance(ms: number): Promise<void> {
+        const target = this.current + ms;
+        await flushPromises();
+
+        while (this.timers.length > 0 && this.timers[0].at <= target) {
+            const timer = this.timers.shift()!;
+            this.current = timer.at;
+            timer.callback();
+            await flushPromises();
+        }
+        this.current = target;
+        await flushPromises();
+    }
+}
+
+function flushPromises(): Promise<void> {
+    return new Promise(resolve => setImmediate(resolve));
+}
@@ -0,0 +1,105 @@
+export interface CronExpression {
+    minutes: Set<number>;
+    hours: Set<number>;
+    daysOfMonth: Set<number>;
+    months: Set<number>;
+    daysOfWeek: Set<number>;
+    anyDayOfMonth: boolean;
+    anyDayOfWeek: boolean;
+}
+
+interface CronField {
+    min: number;
+    max: number;
+}
+
+const CRON_FIELDS: CronField[] = [
+    { min: 0, max: 59 },
+    { min: 0, max: 23 },
+    { min: 1, max: 31 },
+    { min: 1, max: 12 },
+    { min: 0, max: 7 },
+];
+
+const SEARCH_LIMIT_MS = 5 * 366 * 24 * 60 * 60 * 1000;
+
+// Standard five field syntax: minute hour day-of-month month day-of-week, with `*`, lists, ranges and steps.
+export function parseCron(expression: string): CronExpression {
+    const fields = expression.trim().split(/\s+/);
+    if (fields.length !== 5) {
+        throw new Error(`Invalid cron expression "${expression}": expected 5 fields`);
+    }
+
+    const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map((field, i) => parseField(field, CRON_FIELDS[i], expression));
+    // 7 is an alias for Sunday.
+    if (daysOfWeek.delete(7)) daysOfWeek.add(0);
+
+    return {
+        minutes,
+        hours,
+        daysOfMonth,
+        months,
+        daysOfWeek,
+        anyDayOfMonth: fields[2].startsWith('*'),
+        anyDayOfWeek: fields[4].startsWith('*'),
+    };
+}
+
+function parseField(field: string, { min, max }: CronField, expression: string): Set<number> {
+    const values = new Set<number>();
+
+    for (const part of field.split(',')) {
+        const match = /^(?:\*|(\d+)(?:-(\d+))?)(?:\/(\d+))?$/.exec(part);
+        if (!match) {
+            throw new Error(`Invalid cron expression "${expression}": cannot parse "${part}"`);
+        }
+
+        const [, from, to, stepText] = match;
+        const step = stepText !== undefined ? Number(stepText) : 1;
+        const start = from !== undefined ? Number(from) : min;
+        const end = to !== undefined ? Number(to) : from !== undefined && stepText === undefined ? start : max;
+        if (start < min || end > max || start > end || step < 1) {
+            throw new Error(`Invalid cron expression "${expression}": "${part}" is out of range`);
+        }
+
+        for (let value = start; value <= end; value += step) {
+            values.add(value);
+        }
+    }
+    return values;
+}
+
+// When both day fields are restricted a day matches either of them, as in classic cron.
+function matchesDay(cron: CronExpression, date: Date): boolean {
+    const dayOfMonth = cron.daysOfMonth.has(date.getDate());
+    const dayOfWeek = cron.daysOfWeek.has(date.getDay());
+
+    if (cron.anyDayOfMonth) return dayOfWeek;
+    if (cron.anyDayOfWeek) return dayOfMonth;
+    return dayOfMonth || dayOfWeek;
+}
+
+// First matching minute strictly after `after`, in local time.
+export function nextCronTime(cron: CronExpression, after: number): number {
+    const date = new Date(after);
+    date.setSeconds(0, 0);
+    date.setMinutes(date.getMinutes() + 1);
+
+    while (date.getTime() - after < SEARCH_LIMIT_MS) {
+        if (!cron.months.has(date.getMonth() + 1)) {
+            date.setMonth(date.getMonth() + 1, 1);
+            date.setHours(0, 0, 0, 0);
+        } else if (!matchesDay(cron, date)) {
+            date.setDate(date.getDate() + 1);
+            date.setHours(0, 0, 0, 0);
+        } else if (!cron.hours.has(date.getHours())) {
+            date.setHours(date.getHours() + 1, 0, 0, 0);
+        } else if (!cron.minutes.has(date.getMinutes())) {
+            date.setMinutes(date.getMinutes() + 1, 0, 0);
+        } else {
+            return date.getTime();
+        }
+    }
+
+    throw new Error('Cron expression never matches');
+}
@@ -0,0 +1,66 @@
+import type { QueueElement, QueueElementError } from './asyncQueue';
+
+export interface DeadLetterOptions {
+    maxSize?: number;
+}
+
+export interface DeadLetterEntry<T> {
+    id: number;
+    element: QueueElement<T>;
+    error: QueueElementError;
+    firstFailedAt: number;
+    failedAt: number;
+}
+
+export class DeadLetterQueue<T> {
+    private entries: DeadLetterEntry<T>[] = [];
+    private nextId = 1;
+    private readonly maxSize: number;
+
+    constructor(options?: DeadLetterOptions) {
+        this.maxSize = options?.maxSize ?? Infinity;
+    }
+
+    public add(element: QueueElement<T>, error: QueueElementError, failedAt: number): DeadLetterEntry<T> {
+        const firstAttempt = error.attempts?.[0];
+        const entry: DeadLetterEntry<T> = {
+            id: this.nextId++,
+            element: { ...element, error },
+            error,
+            firstFailedAt: firstAttempt ? firstAttempt.startedAt + firstAttempt.duration : failedAt,
+            failedAt,
+        };
+        this.entries.push(entry);
+
+        if (this.entries.length > this.maxSize) {
+            this.entries.shift();
+        }
+        return entry;
+    }
+
+    public list(): DeadLetterEntry<T>[] {
+        return [...this.entries];
+    }
+
+    public get(id: number): DeadLetterEntry<T> | undefined {
+        return this.entries.find(entry => entry.id === id);
+    }
+
+    public take(filter?: (entry: DeadLetterEntry<T>) => boolean): DeadLetterEntry<T>[] {
+        const taken: DeadLetterEntry<T>[] = [];
+        this.entries = this.entries.filter(entry => {
+            if (filter && !filter(entry)) return true;
+            taken.push(entry);
+            return false;
+        });
+        return taken;
+    }
+
+    public restore(entries: DeadLetterEntry<T>[]): void {
+        this.entries = [...entries, ...this.entries].sort((a, b) => a.id - b.id);
+    }
+
+    public size(): number {
+        return this.entries.length;
+    }
+}
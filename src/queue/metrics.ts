@@ -0,0 +1,101 @@
+export interface LatencyStats {
+    count: number;
+    sum: number;
+    min: number;
+    max: number;
+    mean: number;
+    p50: number;
+    p95: number;
+    p99: number;
+}
+
+export const DEFAULT_LATENCY_BUCKETS = [5, 10, 25, 50, 100, 250, 500, 1000, 2500, 5000, 10000];
+
+// Cumulative bucket counts for Prometheus plus a sliding window of recent samples for percentiles.
+export class Histogram {
+    private counts: number[];
+    private samples: number[] = [];
+    private sampleIndex = 0;
+    private count = 0;
+    private sum = 0;
+    private min = Infinity;
+    private max = 0;
+
+    constructor(
+        private readonly buckets: number[] = DEFAULT_LATENCY_BUCKETS,
+        private readonly windowSize: number = 1024,
+    ) {
+        this.counts = new Array(buckets.length).fill(0);
+    }
+
+    public observe(value: number): void {
+        this.count++;
+        this.sum += value;
+        this.min = Math.min(this.min, value);
+        this.max = Math.max(this.max, value);
+
+        this.buckets.forEach((bound, i) => {
+            if (value <= bound) this.counts[i]++;
+        });
+
+        if (this.samples.length < this.windowSize) {
+            this.samples.push(value);
+        } else {
+            this.samples[this.sampleIndex] = value;
+            this.sampleIndex = (this.sampleIndex + 1) % this.windowSize;
+        }
+    }
+
+    public reset(): void {
+        this.counts = new Array(this.buckets.length).fill(0);
+        this.samples = [];
+        this.sampleIndex = 0;
+        this.count = 0;
+        this.sum = 0;
+        this.min = Infinity;
+        this.max = 0;
+    }
+
+    public snapshot(): LatencyStats {
+        const sorted = [...this.samples].sort((a, b) => a - b);
+        return Object.freeze({
+            count: this.count,
+            sum: this.sum,
+            min: this.count > 0 ? this.min : 0,
+            max: this.max,
+            mean: this.count > 0 ? this.sum / this.count : 0,
+            p50: percentile(sorted, 50),
+            p95: percentile(sorted, 95),
+            p99: percentile(sorted, 99),
+        });
+    }
+
+    public toPrometheus(name: string, help: string): string[] {
+        const lines = [
+            `# HELP ${name} ${help}`,
+            `# TYPE ${name} histogram`,
+        ];
+        this.buckets.forEach((bound, i) => {
+            lines.push(`${name}_bucket{le="${bound}"} ${this.counts[i]}`);
+        });
+        lines.push(`${name}_bucket{le="+Inf"} ${this.count}`);
+        lines.push(`${name}_sum ${this.sum}`);
+        lines.push(`${name}_count ${this.count}`);
+        return lines;
+    }
+}
+
+// Nearest-rank percentile over an ascending array.
+function percentile(sorted: number[], p: number): number {
+    if (sorted.length === 0) return 0;
+    const rank = Math.ceil((p / 100) * sorted.length);
+    return sorted[Math.max(rank - 1, 0)];
+}
+
+export function prometheusMetric(name: string, type: 'counter' | 'gauge', help: string, value: number): string[] {
+    return [
+        `# HELP ${name} ${help}`,
+        `# TYPE ${name} ${type}`,
+        `${name} ${value}`,
+    ];
+}
@@ -0,0 +1,116 @@
+import { RingBuffer } from './ringBuffer';
+
+interface LaneEntry<T> {
+    value: T;
+    seq: number;
+}
+
+// One FIFO ring buffer per priority, visited from the highest priority down. Pushing and popping are O(1)
+// for priorities already in use; the insertion sequence keeps lanes ordered when an entry changes lanes.
+export class PriorityLanes<T> {
+    private lanes = new Map<number, RingBuffer<LaneEntry<T>>>();
+    private priorities: number[] = [];
+    private count = 0;
+    private seq = 0;
+
+    public push(value: T, priority: number = 0): void {
+        this.lane(priority).push({ value, seq: this.seq++ });
+        this.count++;
+    }
+
+    public pop(): T | undefined {
+        if (this.count === 0) return undefined;
+        return this.take(this.priorities[0], 0).value;
+    }
+
+    // Pops the best value accepted by the predicate; skipped entries keep their place.
+    public popWhere(predicate: (value: T) => boolean): T | undefined {
+        const found = this.find(predicate);
+        return found && this.take(found.priority, found.position).value;
+    }
+
+    public peek(): T | undefined {
+        if (this.count === 0) return undefined;
+        return this.lanes.get(this.priorities[0])!.peek()!.value;
+    }
+
+    public size(): number {
+        return this.count;
+    }
+
+    public isEmpty(): boolean {
+        return this.count === 0;
+    }
+
+    public clear(): void {
+        this.lanes = new Map();
+        this.priorities = [];
+        this.count = 0;
+    }
+
+    public update(predicate: (value: T) => boolean, priority: number): T | undefined {
+        const found = this.find(predicate);
+        if (!found) return undefined;
+
+        const entry = this.take(found.priority, found.position);
+        const lane = this.lane(priority);
+        let position = lane.size();
+        while (position > 0 && lane.at(position - 1)!.seq > entry.seq) position--;
+        lane.insertAt(position, entry);
+        this.count++;
+        return entry.value;
+    }
+
+    public remove(predicate: (value: T) => boolean): T | undefined {
+        const found = this.find(predicate);
+        return found && this.take(found.priority, found.position).value;
+    }
+
+    // Removes the entry that was pushed first, regardless of its priority.
+    public removeOldest(): T | undefined {
+        let oldest: { priority: number; seq: number } | undefined;
+        for (const priority of this.priorities) {
+            const head = this.lanes.get(priority)!.peek()!;
+            if (!oldest || head.seq < oldest.seq) oldest = { priority, seq: head.seq };
+        }
+        return oldest && this.take(oldest.priority, 0).value;
+    }
+
+    // Values in the order pop() would return them.
+    public toArray(): T[] {
+        return this.priorities.flatMap(priority => this.lanes.get(priority)!.toArray().map(entry => entry.value));
+    }
+
+    private find(predicate: (value: T) => boolean): { priority: number; position: number } | undefined {
+        for (const priority of this.priorities) {
+            const lane = this.lanes.get(priority)!;
+            for (let position = 0; position < lane.size(); position++) {
+                if (predicate(lane.at(position)!.value)) return { priority, position };
+            }
+        }
+        return undefined;
+    }
+
+    private lane(priority: number): RingBuffer<LaneEntry<T>> {
+        let lane = this.lanes.get(priority);
+        if (!lane) {
+            lane = new RingBuffer();
+            this.lanes.set(priority, lane);
+            const index = this.priorities.findIndex(existing => existing < priority);
+            this.priorities.splice(index === -1 ? this.priorities.length : index, 0, priority);
+        }
+        return lane;
+    }
+
+    private take(priority: number, position: number): LaneEntry<T> {
+        const lane = this.lanes.get(priority)!;
+        const entry = lane.removeAt(position)!;
+        this.count--;
+
+        if (lane.isEmpty()) {
+            this.lanes.delete(priority);
+            this.priorities.splice(this.priorities.indexOf(priority), 1);
+        }
+        return entry;
+    }
+}
@@ -0,0 +1,120 @@
+interface PriorityEntry<T> {
+    value: T;
+    priority: number;
+    seq: number;
+}
+
+// Binary max-heap keyed on priority; the insertion sequence breaks ties so equal priorities stay FIFO.
+export class PriorityStore<T> {
+    private heap: PriorityEntry<T>[] = [];
+    private seq = 0;
+
+    public push(value: T, priority: number = 0): void {
+        this.pushEntry({ value, priority, seq: this.seq++ });
+    }
+
+    public pop(): T | undefined {
+        return this.popEntry()?.value;
+    }
+
+    public peek(): T | undefined {
+        return this.heap[0]?.value;
+    }
+
+    public size(): number {
+        return this.heap.length;
+    }
+
+    public isEmpty(): boolean {
+        return this.heap.length === 0;
+    }
+
+    public clear(): void {
+        this.heap = [];
+    }
+
+    public remove(predicate: (value: T) => boolean): T | undefined {
+        const index = this.heap.findIndex(entry => predicate(entry.value));
+        if (index === -1) return undefined;
+
+        const removed = this.heap[index];
+        const last = this.heap.pop()!;
+        if (index < this.heap.length) {
+            this.heap[index] = last;
+            this.siftUp(index);
+            this.siftDown(index);
+        }
+        return removed.value;
+    }
+
+    // Removes the entry that was pushed first, regardless of its priority.
+    public removeOldest(): T | undefined {
+        if (this.heap.length === 0) return undefined;
+
+        let oldest = this.heap[0];
+        for (const entry of this.heap) {
+            if (entry.seq < oldest.seq) oldest = entry;
+        }
+        return this.remove(value => value === oldest.value);
+    }
+
+    // Values in the order pop() would return them.
+    public toArray(): T[] {
+        return [...this.heap]
+            .sort((a, b) => this.compare(a, b) ? -1 : 1)
+            .map(entry => entry.value);
+    }
+
+    private pushEntry(entry: PriorityEntry<T>): void {
+        this.heap.push(entry);
+        this.siftUp(this.heap.length - 1);
+    }
+
+    private popEntry(): PriorityEntry<T> | undefined {
+        if (this.heap.length === 0) return undefined;
+
+        const top = this.heap[0];
+        const last = this.heap.pop()!;
+        if (this.heap.length > 0) {
+            this.heap[0] = last;
+            this.siftDown(0);
+        }
+        return top;
+    }
+
+    private compare(a: PriorityEntry<T>, b: PriorityEntry<T>): boolean {
+        return a.priority > b.priority || (a.priority === b.priority && a.seq < b.seq);
+    }
+
+    private siftUp(index: number): void {
+        while (index > 0) {
+            const parent = (index - 1) >> 1;
+            if (!this.compare(this.heap[index], this.heap[parent])) break;
+            this.swap(index, parent);
+            index = parent;
+        }
+    }
+
+    private siftDown(index: number): void {
+        const length = this.heap.length;
+        // eslint-disable-next-line no-constant-condition
+        while (true) {
+            const left = index * 2 + 1;
+            const right = left + 1;
+            let best = index;
+
+            if (left < length && this.compare(this.heap[left], this.heap[best])) best = left;
+            if (right < length && this.compare(this.heap[right], this.heap[best])) best = right;
+            if (best === index) break;
+
+            this.swap(index, best);
+            index = best;
+        }
+    }
+
+    private swap(i: number, j: number): void {
+        const tmp = this.heap[i];
+        this.heap[i] = this.heap[j];
+        this.heap[j] = tmp;
+    }
+}
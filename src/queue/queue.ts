@@ -1,43 +1,113 @@
-export class Queue<T> {
-    private items: T[] = []
-  
-    constructor() {}
-  
-    public enqueue (item: T): void {
+import { BaseCollection } from '../collection/collection';
+import { deserializeItems, readSerialized, SerializedCollection, SerializeOptions, serializeItems } from '../collection/serialization';
+import { RingBuffer } from './ringBuffer';
+
+export type QueueOverflowPolicy = 'throw' | 'drop-oldest' | 'drop-newest';
+
+export interface QueueOptions {
+    capacity?: number;
+    overflow?: QueueOverflowPolicy;
+}
+
+export interface SerializedQueue extends SerializedCollection {
+    type: 'Queue';
+    overflow: QueueOverflowPolicy;
+}
+
+export class Queue<T> extends BaseCollection<T> {
+    private items = new RingBuffer<T>()
+    private readonly capacity: number
+    private readonly overflow: QueueOverflowPolicy
+
+    constructor(options?: QueueOptions) {
+      super()
+      this.capacity = options?.capacity ?? Infinity
+      this.overflow = options?.overflow ?? 'throw'
+      if (this.capacity < 1) {
+        throw new Error('Capacity must be at least 1')
+      }
+    }
+
+    // Returns false when the item was discarded by the drop-newest policy.
+    public enqueue (item: T): boolean {
+      if (this.isFull()) {
+        switch (this.overflow) {
+          case 'drop-oldest':
+            this.items.shift()
+            break
+          case 'drop-newest':
+            return false
+          default:
+            throw new Error('Queue is full')
+        }
+      }
       this.items.push(item)
+      return true
     }
-  
+
     public dequeue (): T | undefined {
       return this.items.shift()
     }
-  
+
     public peek(): T | undefined {
-        return this.items[0];
+        return this.items.peek();
     }
-  
+
     public getItems (): T[] {
-      return this.items
+      return this.toArray()
     }
-  
+
     public clear (): void {
-      this.items = []
+      this.items.clear()
     }
-  
+
     public size (): number {
-      return this.items.length
+      return this.items.size()
     }
-  
+
     public isEmpty (): boolean {
-      return this.items.length === 0
+      return this.items.isEmpty()
+    }
+
+    public isFull (): boolean {
+      return this.items.size() >= this.capacity
+    }
+
+    public *[Symbol.iterator](): Iterator<T> {
+      yield* this.items
+    }
+
+    public static from<T>(iterable: Iterable<T>, options?: QueueOptions): Queue<T> {
+      const queue = new Queue<T>(options)
+      for (const item of iterable) {
+        queue.enqueue(item)
+      }
+      return queue
+    }
+
+    public map<U>(callback: (item: T, index: number) => U): Queue<U> {
+      return Queue.from(Array.from(this, callback), { capacity: this.capacity, overflow: this.overflow })
+    }
+
+    public filter(predicate: (item: T, index: number) => boolean): Queue<T> {
+      return Queue.from(this.toArray().filter(predicate), { capacity: this.capacity, overflow: this.overflow })
+    }
+
+    // Items are stored from front to back; an unlimited capacity is left out because JSON has no Infinity.
+    public toJSON (options?: SerializeOptions): SerializedQueue {
+      const serialized: SerializedQueue = { type: 'Queue', items: serializeItems(this, options), overflow: this.overflow }
+      if (this.capacity !== Infinity) serialized.capacity = this.capacity
+      return serialized
+    }
+
+    public static fromJSON<T>(data: SerializedQueue | string, options?: SerializeOptions): Queue<T> {
+      const serialized = readSerialized(data, 'Queue')
+      return Queue.from(deserializeItems<T>(serialized.items, options), { capacity: serialized.capacity, overflow: serialized.overflow })
     }
 
     public consume(callback: (item: T) => void): void {
         while (!this.isEmpty()) {
-            const item = this.dequeue();
-            if (item) {
-                callback(item);
-            }
+            callback(this.dequeue() as T);
         }
     }
 }
-  
\ No newline at end of file
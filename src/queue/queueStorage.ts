@@ -0,0 +1,111 @@
+import * as fs from 'fs';
+import type { QueueElement, QueueElementError } from './asyncQueue';
+
+export type QueueJournalEntry<T> =
+    | { type: 'enqueue'; id: string; element: QueueElement<T> }
+    | { type: 'priority'; id: string; priority: number }
+    | { type: 'start'; id: string; attempt: number }
+    | { type: 'ack'; id: string }
+    | { type: 'fail'; id: string; error: QueueElementError };
+
+export interface StoredQueueJob<T> {
+    id: string;
+    element: QueueElement<T>;
+    attempts: number;
+    inFlight: boolean;
+}
+
+// Adapters are synchronous so a queue can restore its jobs while it is being constructed.
+export interface QueueStorage<T> {
+    append(entry: QueueJournalEntry<T>): void;
+    load(): StoredQueueJob<T>[];
+}
+
+// Folds a journal into the jobs that were still pending or in flight, in enqueue order.
+export function replayJournal<T>(entries: Iterable<QueueJournalEntry<T>>): StoredQueueJob<T>[] {
+    const jobs = new Map<string, StoredQueueJob<T>>();
+
+    for (const entry of entries) {
+        switch (entry.type) {
+            case 'enqueue':
+                jobs.set(entry.id, { id: entry.id, element: entry.element, attempts: entry.element.attempts ?? 0, inFlight: false });
+                break;
+            case 'priority': {
+                const job = jobs.get(entry.id);
+                if (job) job.element = { ...job.element, priority: entry.priority };
+                break;
+            }
+            case 'start': {
+                const job = jobs.get(entry.id);
+                if (job) {
+                    job.attempts = Math.max(job.attempts, entry.attempt);
+                    job.inFlight = true;
+                }
+                break;
+            }
+            case 'ack':
+            case 'fail':
+                jobs.delete(entry.id);
+                break;
+        }
+    }
+
+    return [...jobs.values()];
+}
+
+// Rewrites a live job as a single enqueue entry that carries its attempt count.
+function compactedEntry<T>(job: StoredQueueJob<T>): QueueJournalEntry<T> {
+    return { type: 'enqueue', id: job.id, element: { ...job.element, attempts: job.attempts } };
+}
+
+export class MemoryQueueStorage<T> implements QueueStorage<T> {
+    private entries: QueueJournalEntry<T>[] = [];
+
+    public append(entry: QueueJournalEntry<T>): void {
+        this.entries.push(entry);
+    }
+
+    public load(): StoredQueueJob<T>[] {
+        const jobs = replayJournal(this.entries);
+        this.entries = jobs.map(compactedEntry);
+        return jobs;
+    }
+
+    public getEntries(): QueueJournalEntry<T>[] {
+        return [...this.entries];
+    }
+}
+
+// Append-only JSON lines journal. Items must be JSON serializable.
+// The journal is compacted to the live jobs every time it is loaded.
+export class FileQueueStorage<T> implements QueueStorage<T> {
+    constructor(private readonly path: string) { }
+
+    public append(entry: QueueJournalEntry<T>): void {
+        fs.appendFileSync(this.path, JSON.stringify(entry) + '\n');
+    }
+
+    public load(): StoredQueueJob<T>[] {
+        if (!fs.existsSync(this.path)) return [];
+
+        const entries: QueueJournalEntry<T>[] = [];
+        for (const line of fs.readFileSync(this.path, 'utf8').split('\n')) {
+            if (!line.trim()) continue;
+            try {
+                entries.push(JSON.parse(line));
+            } catch {
+                // A crash can leave the last line half written; everything before it is still valid.
+            }
+        }
+
+        const jobs = replayJournal(entries);
+        const compacted = jobs
+            .map(job => JSON.stringify(compactedEntry(job)) + '\n')
+            .join('');
+        const tmpPath = `${this.path}.tmp`;
+        fs.writeFileSync(tmpPath, compacted);
+        fs.renameSync(tmpPath, this.path);
+
+        return jobs;
+    }
+}
@@ -0,0 +1,70 @@
+export interface RateLimitOptions {
+    limit: number;
+    intervalMs: number;
+}
+
+function assertValidRateLimit(options: RateLimitOptions): void {
+    if (options.limit <= 0 || options.intervalMs <= 0) {
+        throw new Error('Rate limit and interval must be greater than 0');
+    }
+}
+
+// Token bucket holding up to `limit` tokens, refilled continuously at `limit` per `intervalMs`.
+// Tokens may go negative: each caller reserves the next free slot, which keeps waiters in FIFO order.
+export class RateLimiter {
+    private tokens: number;
+    private lastRefill: number;
+
+    constructor(private options: RateLimitOptions, private readonly now: () => number = Date.now) {
+        assertValidRateLimit(options);
+        this.tokens = options.limit;
+        this.lastRefill = this.now();
+    }
+
+    // Reserves a slot and returns how many milliseconds the caller must wait before using it.
+    public reserve(): number {
+        this.refill();
+        this.tokens--;
+        return this.tokens >= 0 ? 0 : Math.ceil(-this.tokens * this.msPerToken());
+    }
+
+    public release(): void {
+        this.refill();
+        this.tokens = Math.min(this.tokens + 1, this.options.limit);
+    }
+
+    public isThrottled(): boolean {
+        this.refill();
+        return this.tokens < 1;
+    }
+
+    public nextSlotAt(): number {
+        this.refill();
+        const now = this.now();
+        return this.tokens >= 1 ? now : now + Math.ceil((1 - this.tokens) * this.msPerToken());
+    }
+
+    public update(options: RateLimitOptions): void {
+        assertValidRateLimit(options);
+        this.refill();
+        this.options = options;
+        this.tokens = Math.min(this.tokens, options.limit);
+    }
+
+    public getOptions(): RateLimitOptions {
+        return { ...this.options };
+    }
+
+    private msPerToken(): number {
+        return this.options.intervalMs / this.options.limit;
+    }
+
+    private refill(): void {
+        const now = this.now();
+        const elapsed = now - this.lastRefill;
+        if (elapsed <= 0) return;
+
+        this.tokens = Math.min(this.options.limit, this.tokens + elapsed / this.msPerToken());
+        this.lastRefill = now;
+    }
+}
@@ -0,0 +1,24 @@
+export interface BackoffOptions {
+    type: 'fixed' | 'exponential';
+    factor?: number;
+    maxDelay?: number;
+    jitter?: number;
+}
+
+// `attempt` is the number of the attempt that just failed, starting at 1.
+export function computeRetryDelay(baseDelay: number, attempt: number, backoff: BackoffOptions): number {
+    let delay = backoff.type === 'exponential'
+        ? baseDelay * Math.pow(backoff.factor ?? 2, attempt - 1)
+        : baseDelay;
+
+    if (backoff.maxDelay !== undefined) {
+        delay = Math.min(delay, backoff.maxDelay);
+    }
+
+    const jitter = Math.min(Math.max(backoff.jitter ?? 0, 0), 1);
+    if (jitter > 0) {
+        delay -= delay * jitter * Math.random();
+    }
+
+    return Math.round(delay);
+}
@@ -0,0 +1,134 @@
+// Growable circular buffer. The backing array always has a power-of-two length, so indexes wrap with a mask.
+export class RingBuffer<T> {
+    private buffer: (T | undefined)[];
+    private head = 0;
+    private length = 0;
+
+    constructor(private readonly initialCapacity: number = 16) {
+        this.buffer = new Array(RingBuffer.roundUp(initialCapacity));
+    }
+
+    public size(): number {
+        return this.length;
+    }
+
+    public isEmpty(): boolean {
+        return this.length === 0;
+    }
+
+    public push(item: T): void {
+        if (this.length === this.buffer.length) this.grow();
+        this.buffer[this.index(this.length)] = item;
+        this.length++;
+    }
+
+    public shift(): T | undefined {
+        if (this.length === 0) return undefined;
+
+        const item = this.buffer[this.head];
+        this.buffer[this.head] = undefined;
+        this.head = this.index(1);
+        this.length--;
+        return item;
+    }
+
+    public unshift(item: T): void {
+        if (this.length === this.buffer.length) this.grow();
+        this.head = this.index(this.buffer.length - 1);
+        this.buffer[this.head] = item;
+        this.length++;
+    }
+
+    public pop(): T | undefined {
+        if (this.length === 0) return undefined;
+
+        const position = this.index(this.length - 1);
+        const item = this.buffer[position];
+        this.buffer[position] = undefined;
+        this.length--;
+        return item;
+    }
+
+    public peek(): T | undefined {
+        return this.length > 0 ? this.buffer[this.head] : undefined;
+    }
+
+    public at(position: number): T | undefined {
+        if (position < 0 || position >= this.length) return undefined;
+        return this.buffer[this.index(position)];
+    }
+
+    // Moves whichever side of the buffer is shorter, so removing near either end stays cheap.
+    public removeAt(position: number): T | undefined {
+        if (position < 0 || position >= this.length) return undefined;
+
+        const item = this.buffer[this.index(position)];
+        if (position < this.length / 2) {
+            for (let i = position; i > 0; i--) {
+                this.buffer[this.index(i)] = this.buffer[this.index(i - 1)];
+            }
+            this.buffer[this.head] = undefined;
+            this.head = this.index(1);
+        } else {
+            for (let i = position; i < this.length - 1; i++) {
+                this.buffer[this.index(i)] = this.buffer[this.index(i + 1)];
+            }
+            this.buffer[this.index(this.length - 1)] = undefined;
+        }
+        this.length--;
+        return item;
+    }
+
+    public insertAt(position: number, item: T): void {
+        if (position < 0 || position > this.length) {
+            throw new RangeError(`Index ${position} is out of bounds`);
+        }
+
+        if (this.length === this.buffer.length) this.grow();
+        for (let i = this.length; i > position; i--) {
+            this.buffer[this.index(i)] = this.buffer[this.index(i - 1)];
+        }
+        this.buffer[this.index(position)] = item;
+        this.length++;
+    }
+
+    public clear(): void {
+        this.buffer = new Array(RingBuffer.roundUp(this.initialCapacity));
+        this.head = 0;
+        this.length = 0;
+    }
+
+    public *[Symbol.iterator](): Iterator<T> {
+        for (let i = 0; i < this.length; i++) {
+            yield this.buffer[this.index(i)] as T;
+        }
+    }
+
+    public toArray(): T[] {
+        const items: T[] = new Array(this.length);
+        for (let i = 0; i < this.length; i++) {
+            items[i] = this.buffer[this.index(i)] as T;
+        }
+        return items;
+    }
+
+    private index(position: number): number {
+        return (this.head + position) & (this.buffer.length - 1);
+    }
+
+    // Unrolls the items to the start of a buffer twice the size.
+    private grow(): void {
+        const items = this.toArray();
+        this.buffer = new Array(this.buffer.length * 2);
+        items.forEach((item, i) => {
+            this.buffer[i] = item;
+        });
+        this.head = 0;
+    }
+
+    private static roundUp(capacity: number): number {
+        let size = 1;
+        while (size < capacity) size *= 2;
+        return size;
+    }
+}
@@ -0,0 +1,57 @@
+export type EventListener<P> = (payload: P) => void;
+
+interface ListenerEntry<P> {
+    listener: EventListener<P>;
+    once: boolean;
+}
+
+type ListenerMap<Events> = { [K in keyof Events]?: ListenerEntry<Events[K]>[] };
+
+export class TypedEmitter<Events> {
+    private listeners: ListenerMap<Events> = {};
+
+    public on<K extends keyof Events>(event: K, listener: EventListener<Events[K]>): void {
+        this.add(event, listener, false);
+    }
+
+    public once<K extends keyof Events>(event: K, listener: EventListener<Events[K]>): void {
+        this.add(event, listener, true);
+    }
+
+    public off<K extends keyof Events>(event: K, listener: EventListener<Events[K]>): void {
+        const entries = this.listeners[event];
+        if (!entries) return;
+
+        const index = entries.findIndex(entry => entry.listener === listener);
+        if (index !== -1) entries.splice(index, 1);
+    }
+
+    public emit<K extends keyof Events>(event: K, payload: Events[K]): void {
+        const entries = this.listeners[event];
+        if (!entries || entries.length === 0) return;
+
+        // Snapshot so listeners added or removed while emitting only apply to the next emit.
+        for (const entry of [...entries]) {
+            if (entry.once) this.off(event, entry.listener);
+            entry.listener(payload);
+        }
+    }
+
+    public listenerCount<K extends keyof Events>(event: K): number {
+        return this.listeners[event]?.length ?? 0;
+    }
+
+    public removeAllListeners<K extends keyof Events>(event?: K): void {
+        if (event === undefined) {
+            this.listeners = {};
+        } else {
+            delete this.listeners[event];
+        }
+    }
+
+    private add<K extends keyof Events>(event: K, listener: EventListener<Events[K]>, once: boolean): void {
+        const entries = this.listeners[event] ?? [];
+        entries.push({ listener, once });
+        this.listeners[event] = entries;
+    }
+}
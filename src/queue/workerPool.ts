@@ -0,0 +1,185 @@
+import { ResourceLimits, TransferListItem, Worker } from 'worker_threads';
+
+export interface WorkerPoolOptions<T> {
+    size?: number;
+    exportName?: string;
+    transferList?: (item: T) => TransferListItem[];
+    resourceLimits?: ResourceLimits;
+}
+
+interface PoolTask<T, R> {
+    item: T;
+    signal: AbortSignal;
+    resolve: (result: R) => void;
+    reject: (error: unknown) => void;
+}
+
+interface PoolWorker<T, R> {
+    worker: Worker;
+    task?: PoolTask<T, R>;
+    crash?: Error;
+    retired: boolean;
+}
+
+type WorkerMessage<R> =
+    | { result: R }
+    | { error: { name: string; message: string; stack?: string } };
+
+// Runs inside each thread: loads the consumer module once and answers one item at a time.
+const WORKER_SOURCE = `
+const { parentPort, workerData } = require('worker_threads');
+const loaded = require(workerData.modulePath);
+const consumer = workerData.exportName
+    ? loaded[workerData.exportName]
+    : typeof loaded === 'function' ? loaded : loaded.default;
+if (typeof consumer !== 'function') {
+    throw new Error('Worker module ' + workerData.modulePath + ' does not export a consumer function');
+}
+parentPort.on('message', async ({ item }) => {
+    try {
+        parentPort.postMessage({ result: await consumer(item) });
+    } catch (err) {
+        const error = err instanceof Error ? err : new Error(String(err));
+        parentPort.postMessage({ error: { name: error.name, message: error.message, stack: error.stack } });
+    }
+});
+`;
+
+// Items and results cross the thread boundary by structured clone. Aborting a running item terminates its
+// worker, since the consumer cannot be interrupted otherwise, and a replacement is spawned for the next item.
+export class WorkerPool<T, R> {
+    private readonly workers = new Set<PoolWorker<T, R>>();
+    private waiting: PoolTask<T, R>[] = [];
+    private terminated = false;
+
+    constructor(
+        private readonly modulePath: string,
+        private readonly size: number,
+        private readonly options: WorkerPoolOptions<T> = {},
+    ) {
+        if (size < 1) {
+            throw new Error('Worker pool size must be at least 1');
+        }
+    }
+
+    public run(item: T, signal: AbortSignal): Promise<R> {
+        return new Promise((resolve, reject) => {
+            if (this.terminated) return reject(new Error('Worker pool is terminated'));
+            if (signal.aborted) return reject(signal.reason);
+
+            const onAbort = (): void => {
+                const runner = [...this.workers].find(candidate => candidate.task === task);
+                if (runner) {
+                    this.retire(runner);
+                } else {
+                    this.waiting = this.waiting.filter(candidate => candidate !== task);
+                }
+                reject(signal.reason);
+                this.dispatch();
+            };
+            const task: PoolTask<T, R> = {
+                item,
+                signal,
+                resolve: (result: R): void => {
+                    signal.removeEventListener('abort', onAbort);
+                    resolve(result);
+                },
+                reject: (error: unknown): void => {
+                    signal.removeEventListener('abort', onAbort);
+                    reject(error);
+                },
+            };
+            signal.addEventListener('abort', onAbort, { once: true });
+
+            this.waiting.push(task);
+            this.dispatch();
+        });
+    }
+
+    public async terminate(): Promise<void> {
+        this.terminated = true;
+        const error = new Error('Worker pool is terminated');
+        const waiting = this.waiting;
+        this.waiting = [];
+        waiting.forEach(task => task.reject(error));
+
+        await Promise.all([...this.workers].map(runner => {
+            runner.task?.reject(error);
+            return this.retire(runner);
+        }));
+    }
+
+    private dispatch(): void {
+        while (this.waiting.length > 0) {
+            const runner = [...this.workers].find(candidate => !candidate.task) ?? this.spawn();
+            if (!runner) return;
+
+            const task = this.waiting.shift()!;
+            runner.task = task;
+            runner.worker.ref();
+            try {
+                runner.worker.postMessage({ item: task.item }, this.options.transferList?.(task.item));
+            } catch (err) {
+                // Items that cannot be structured cloned fail without touching the worker.
+                runner.task = undefined;
+                runner.worker.unref();
+                task.reject(err);
+            }
+        }
+    }
+
+    private spawn(): PoolWorker<T, R> | undefined {
+        if (this.terminated || this.workers.size >= this.size) return undefined;
+
+        const worker = new Worker(WORKER_SOURCE, {
+            eval: true,
+            workerData: { modulePath: this.modulePath, exportName: this.options.exportName },
+            resourceLimits: this.options.resourceLimits,
+        });
+        const runner: PoolWorker<T, R> = { worker, retired: false };
+
+        worker.on('message', (message: WorkerMessage<R>) => this.complete(runner, message));
+        worker.on('error', (err) => {
+            runner.crash = err;
+        });
+        worker.on('exit', (code) => {
+            this.workers.delete(runner);
+            const task = runner.task;
+            runner.task = undefined;
+            if (task && !runner.retired) {
+                task.reject(runner.crash ?? new Error(`Worker exited with code ${code}`));
+            }
+            this.dispatch();
+        });
+        // Idle workers must not keep the process alive.
+        worker.unref();
+
+        this.workers.add(runner);
+        return runner;
+    }
+
+    private complete(runner: PoolWorker<T, R>, message: WorkerMessage<R>): void {
+        const task = runner.task;
+        runner.task = undefined;
+        runner.worker.unref();
+
+        if (task) {
+            if ('error' in message) {
+                const error = new Error(message.error.message);
+                error.name = message.error.name;
+                error.stack = message.error.stack;
+                task.reject(error);
+            } else {
+                task.resolve(message.result);
+            }
+        }
+        this.dispatch();
+    }
+
+    private async retire(runner: PoolWorker<T, R>): Promise<void> {
+        runner.retired = true;
+        runner.task = undefined;
+        this.workers.delete(runner);
+        await runner.worker.terminate();
+    }
+}
@@ -1,8 +1,38 @@
+import { BaseCollection } from '../collection/collection';
+import { deserializeItems, readSerialized, SerializedCollection, SerializeOptions, serializeItems } from '../collection/serialization';
 
-export class Stack<T> {
+export interface StackOptions {
+    capacity?: number;
+}
+
+export interface SerializedStack extends SerializedCollection {
+    type: 'Stack';
+}
+
+// Iterates from the top of the stack down, the order pop() would return the items in.
+// A full stack evicts its bottom item to make room for the next push.
+export class Stack<T> extends BaseCollection<T> {
     private items: T[] = [];
+    private readonly capacity: number;
+
+    constructor(options?: StackOptions) {
+        super();
+        this.capacity = options?.capacity ?? Infinity;
+        if (this.capacity < 1) {
+            throw new Error('Capacity must be at least 1');
+        }
+    }
+
+    public static from<T>(iterable: Iterable<T>, options?: StackOptions): Stack<T> {
+        const stack = new Stack<T>(options);
+        for (const item of iterable) {
+            stack.push(item);
+        }
+        return stack;
+    }
 
     public push(item: T): void {
+        if (this.isFull()) this.items.shift();
         this.items.push(item);
     }
 
@@ -18,10 +48,41 @@ export class Stack<T> {
         return this.items.length;
     }
 
-    public isEmpty(): boolean {
-        return this.size() === 0;
+    public isFull(): boolean {
+        return this.items.length >= this.capacity;
+    }
+
+    public clear(): void {
+        this.items = [];
+    }
+
+    public *[Symbol.iterator](): Iterator<T> {
+        for (let i = this.items.length - 1; i >= 0; i--) {
+            yield this.items[i];
+        }
+    }
+
+    // Both keep the original stacking order, so the result pops in the same order as this stack.
+    public map<U>(callback: (item: T, index: number) => U): Stack<U> {
+        return Stack.from(Array.from(this, callback).reverse(), { capacity: this.capacity });
+    }
+
+    public filter(predicate: (item: T, index: number) => boolean): Stack<T> {
+        return Stack.from(this.toArray().filter(predicate).reverse(), { capacity: this.capacity });
     }
     
+    // Items are stored from bottom to top, the order they were pushed in.
+    public toJSON(options?: SerializeOptions): SerializedStack {
+        const serialized: SerializedStack = { type: 'Stack', items: serializeItems(this.items, options) };
+        if (this.capacity !== Infinity) serialized.capacity = this.capacity;
+        return serialized;
+    }
+
+    public static fromJSON<T>(data: SerializedStack | string, options?: SerializeOptions): Stack<T> {
+        const serialized = readSerialized(data, 'Stack');
+        return Stack.from(deserializeItems<T>(serialized.items, options), { capacity: serialized.capacity });
+    }
+
     public async forEach(
         callback: (item: T, index: number) => Promise<void>,
         errorCallback?: (item: T, index: number, error: Error) => Promise<void>
@@ -0,0 +1,191 @@
+import { Stack } from './stack';
+
+export interface UndoCommand {
+    label?: string;
+    do(): void | Promise<void>;
+    undo(): void | Promise<void>;
+    // Returns one command equivalent to running this command and then next, or undefined when they can't merge.
+    merge?(next: UndoCommand): UndoCommand | undefined;
+}
+
+export interface UndoManagerOptions {
+    maxDepth?: number;
+}
+
+interface HistoryEntry {
+    label?: string;
+    commands: UndoCommand[];
+}
+
+// Every operation runs after the previous one has settled, so async commands never interleave.
+// While a transaction is open, executed commands are collected into a single history entry.
+export class UndoManager {
+    private undoStack: Stack<HistoryEntry>;
+    private redoStack = new Stack<HistoryEntry>();
+    private group: UndoCommand[] | null = null;
+    private groupLabel?: string;
+    private groupStarts: number[] = [];
+    private pending: Promise<unknown> = Promise.resolve();
+
+    constructor(options?: UndoManagerOptions) {
+        const maxDepth = options?.maxDepth ?? Infinity;
+        if (maxDepth < 1) {
+            throw new Error('maxDepth must be at least 1');
+        }
+        this.undoStack = new Stack({ capacity: maxDepth });
+    }
+
+    public execute(command: UndoCommand): Promise<void> {
+        return this.serialize(async () => {
+            await command.do();
+            this.record(command);
+        });
+    }
+
+    // Resolves to false when there is nothing to undo. If a command fails, the entry stays on the undo stack.
+    public undo(): Promise<boolean> {
+        return this.serialize(async () => {
+            this.assertNoTransaction('undo');
+            const entry = this.undoStack.pop();
+            if (!entry) return false;
+
+            try {
+                await UndoManager.revert(entry.commands);
+            } catch (error) {
+                this.undoStack.push(entry);
+                throw error;
+            }
+            this.redoStack.push(entry);
+            return true;
+        });
+    }
+
+    public redo(): Promise<boolean> {
+        return this.serialize(async () => {
+            this.assertNoTransaction('redo');
+            const entry = this.redoStack.pop();
+            if (!entry) return false;
+
+            try {
+                for (const command of entry.commands) {
+                    await command.do();
+                }
+            } catch (error) {
+                this.redoStack.push(entry);
+                throw error;
+            }
+            this.undoStack.push(entry);
+            return true;
+        });
+    }
+
+    public canUndo(): boolean {
+        return !this.undoStack.isEmpty();
+    }
+
+    public canRedo(): boolean {
+        return !this.redoStack.isEmpty();
+    }
+
+    public undoLabel(): string | undefined {
+        return this.undoStack.peek()?.label;
+    }
+
+    public redoLabel(): string | undefined {
+        return this.redoStack.peek()?.label;
+    }
+
+    // Transactions nest; only the outermost commit adds an entry to the history.
+    public beginTransaction(label?: string): Promise<void> {
+        return this.serialize(async () => {
+            if (!this.group) {
+                this.group = [];
+                this.groupLabel = label;
+            }
+            this.groupStarts.push(this.group.length);
+        });
+    }
+
+    public commit(): Promise<void> {
+        return this.serialize(async () => {
+            const group = this.currentGroup();
+            this.groupStarts.pop();
+            if (this.groupStarts.length > 0) return;
+
+            this.group = null;
+            if (group.length > 0) {
+                this.undoStack.push({ label: this.groupLabel, commands: group });
+                this.redoStack.clear();
+            }
+        });
+    }
+
+    // Undoes the commands executed since the innermost beginTransaction.
+    public rollback(): Promise<void> {
+        return this.serialize(async () => {
+            const group = this.currentGroup();
+            const commands = group.splice(this.groupStarts.pop()!);
+            if (this.groupStarts.length === 0) this.group = null;
+            await UndoManager.revert(commands);
+        });
+    }
+
+    public async transaction<R>(work: () => R | Promise<R>, label?: string): Promise<R> {
+        await this.beginTransaction(label);
+        try {
+            const result = await work();
+            await this.commit();
+            return result;
+        } catch (error) {
+            await this.rollback();
+            throw error;
+        }
+    }
+
+    public clear(): void {
+        this.undoStack.clear();
+        this.redoStack.clear();
+    }
+
+    private record(command: UndoCommand): void {
+        if (this.group) {
+            const start = this.groupStarts[this.groupStarts.length - 1];
+            const merged = this.group.length > start ? this.group[this.group.length - 1].merge?.(command) : undefined;
+            if (merged) this.group[this.group.length - 1] = merged;
+            else this.group.push(command);
+            return;
+        }
+
+        const top = this.undoStack.peek();
+        const merged = top?.commands.length === 1 ? top.commands[0].merge?.(command) : undefined;
+        if (merged) this.undoStack.pop();
+        const entry = merged ?? command;
+        this.undoStack.push({ label: entry.label, commands: [entry] });
+        this.redoStack.clear();
+    }
+
+    private currentGroup(): UndoCommand[] {
+        if (!this.group) {
+            throw new Error('No transaction in progress');
+        }
+        return this.group;
+    }
+
+    private assertNoTransaction(operation: string): void {
+        if (this.group) {
+            throw new Error(`Cannot ${operation} while a transaction is in progress`);
+        }
+    }
+
+    private serialize<R>(task: () => Promise<R>): Promise<R> {
+        const result = this.pending.then(task);
+        this.pending = result.catch(() => undefined);
+        return result;
+    }
+
+    private static async revert(commands: UndoCommand[]): Promise<void> {
+        for (let i = commands.length - 1; i >= 0; i--) {
+            await commands[i].undo();
+        }
+    }
+}